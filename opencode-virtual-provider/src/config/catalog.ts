@@ -0,0 +1,73 @@
+import { readFileSync } from "node:fs"
+import { homedir } from "node:os"
+import { join } from "node:path"
+import type { Config } from "@opencode-ai/sdk"
+import type { ProviderCatalogEntry, ProviderCatalogModel } from "./loader.js"
+import type { TargetModel } from "./schema.js"
+import { deepMerge } from "../util/merge.js"
+import { log } from "../util/logger.js"
+
+/**
+ * Location of OpenCode's cached models.dev catalog:
+ * $XDG_CACHE_HOME/opencode/models.json (default ~/.cache/opencode/models.json).
+ */
+export function getModelsCachePath(
+  env: Record<string, string | undefined> = process.env,
+  home: string = homedir(),
+): string {
+  const cacheHome = env["XDG_CACHE_HOME"] || join(home, ".cache")
+  return join(cacheHome, "opencode", "models.json")
+}
+
+/**
+ * Build the provider catalog used to inherit model metadata.
+ *
+ * Starts from OpenCode's models.dev cache and layers the user's own
+ * `provider.<id>.models` entries from the live config on top, so custom models
+ * and local overrides are visible too. The "virtual" provider itself is excluded.
+ * A missing or unreadable cache just yields the config-defined models.
+ */
+export function loadProviderCatalog(
+  sdkConfig: Config,
+  cachePath: string = getModelsCachePath(),
+): ProviderCatalogEntry[] {
+  const entries = new Map<string, ProviderCatalogEntry>()
+
+  try {
+    const cache = JSON.parse(readFileSync(cachePath, "utf-8")) as Record<string, { models?: Record<string, ProviderCatalogModel> }>
+    for (const [providerID, provider] of Object.entries(cache)) {
+      entries.set(providerID, { id: providerID, models: { ...(provider.models ?? {}) } })
+    }
+  } catch (err) {
+    log(`loadProviderCatalog: cannot read ${cachePath}: ${err}`)
+  }
+
+  for (const [providerID, provider] of Object.entries(sdkConfig.provider ?? {})) {
+    if (providerID === "virtual" || !provider.models) continue
+    let entry = entries.get(providerID)
+    if (!entry) {
+      entry = { id: providerID, models: {} }
+      entries.set(providerID, entry)
+    }
+    for (const [modelID, model] of Object.entries(provider.models)) {
+      const merged = structuredClone(entry.models[modelID] ?? {}) as Record<string, unknown>
+      deepMerge(merged, model as Record<string, unknown>)
+      entry.models[modelID] = merged
+    }
+  }
+
+  entries.delete("virtual")
+  return [...entries.values()]
+}
+
+/** Look up a target's catalog entry, accepting provider-prefixed model IDs */
+export function findCatalogModel(
+  catalog: ProviderCatalogEntry[],
+  target: TargetModel,
+): ProviderCatalogModel | undefined {
+  const provider = catalog.find((entry) => entry.id === target.provider)
+  if (!provider) return undefined
+  const prefix = `${target.provider}/`
+  const modelID = target.model.startsWith(prefix) ? target.model.slice(prefix.length) : target.model
+  return provider.models[modelID]
+}
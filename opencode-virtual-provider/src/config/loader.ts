@@ -1,6 +1,19 @@
 import { readFileSync } from "node:fs"
-import { join } from "node:path"
-import type { VirtualModelConfig, StrategyProfile, VirtualConfig, RuntimeReplacement } from "./schema.js"
+import { homedir } from "node:os"
+import { join, resolve } from "node:path"
+import type {
+  VirtualModelConfig,
+  StrategyProfile,
+  VirtualConfig,
+  RuntimeReplacement,
+  TargetModel,
+  Budget,
+  NotificationsConfig,
+} from "./schema.js"
+import { deepMerge } from "../util/merge.js"
+import { validateRawConfig, formatIssue } from "./validate.js"
+import { findCatalogModel } from "./catalog.js"
+import { log } from "../util/logger.js"
 export type { RuntimeReplacement }
 
 export interface ProviderCatalogModel {
@@ -16,28 +29,138 @@ export interface LoadedConfig {
   virtualModels: Map<string, VirtualModelConfig>
   strategyProfiles: Map<string, StrategyProfile>
   runtimeReplacement?: RuntimeReplacement
+  /** Group name → model key patterns, for cooldown_scope */
+  cooldownGroups?: Record<string, string[]>
+  /** Provider ID → spend limit */
+  providerBudgets?: Record<string, Budget>
+  /** TUI toasts for routing events */
+  notifications?: NotificationsConfig
+  /** Which layers defined each virtual model / profile, lowest precedence first */
+  sources?: ConfigSources
+  /** Path-qualified schema errors found while loading; invalid models/profiles are left out */
+  errors?: string[]
 }
 
+/**
+ * Router config layers, lowest precedence first:
+ *   1. global  — $XDG_CONFIG_HOME/opencode/router.json (default ~/.config/opencode/router.json)
+ *   2. project — <project>/config/opencode/router.json
+ *   3. env     — the file named by $OPENCODE_ROUTER_CONFIG
+ *
+ * Layers are deep-merged: objects merge key-by-key, arrays and primitives from
+ * a higher layer replace the lower one. A project can therefore tweak one field
+ * of a globally defined model, but a `targets` list is always replaced whole.
+ */
+export type ConfigLayerName = "global" | "project" | "env"
+
+export interface ConfigLayer {
+  name: ConfigLayerName
+  path: string
+}
+
+export interface ConfigSources {
+  /** Layers that loaded successfully, lowest precedence first */
+  layers: ConfigLayer[]
+  /** virtual model ID → layers that defined it */
+  models: Map<string, ConfigLayerName[]>
+  /** strategy profile name → layers that defined it */
+  strategies: Map<string, ConfigLayerName[]>
+}
+
+export const ROUTER_CONFIG_ENV = "OPENCODE_ROUTER_CONFIG"
+
 const ROUTER_CONFIG_RELATIVE_PATH = ["config", "opencode", "router.json"] as const
 
-const EMPTY: LoadedConfig = {
-  virtualModels: new Map(),
-  strategyProfiles: new Map(),
+export function getRouterConfigPath(directory: string): string {
+  return join(directory, ...ROUTER_CONFIG_RELATIVE_PATH)
 }
 
-export function loadConfigFromDirectory(directory: string): LoadedConfig {
-  const configPath = join(directory, ...ROUTER_CONFIG_RELATIVE_PATH)
+export function getConfigLayers(
+  directory: string,
+  env: Record<string, string | undefined> = process.env,
+  home: string = homedir(),
+): ConfigLayer[] {
+  const configHome = env["XDG_CONFIG_HOME"] || join(home, ".config")
+  const layers: ConfigLayer[] = [
+    { name: "global", path: join(configHome, "opencode", "router.json") },
+    { name: "project", path: getRouterConfigPath(directory) },
+  ]
+  const envPath = env[ROUTER_CONFIG_ENV]
+  if (envPath) {
+    layers.push({ name: "env", path: resolve(directory, envPath) })
+  }
+  return layers
+}
+
+export function loadConfigFromDirectory(
+  directory: string,
+  env: Record<string, string | undefined> = process.env,
+  home: string = homedir(),
+): LoadedConfig {
+  const merged: Record<string, unknown> = {}
+  const sources: ConfigSources = { layers: [], models: new Map(), strategies: new Map() }
+
+  for (const layer of getConfigLayers(directory, env, home)) {
+    const raw = readLayer(layer)
+    if (raw === undefined) continue
+
+    sources.layers.push(layer)
+    for (const name of Object.keys(raw.models ?? {})) {
+      appendSource(sources.models, `virtual/${name}`, layer.name)
+    }
+    for (const name of Object.keys(raw.strategies ?? {})) {
+      appendSource(sources.strategies, name, layer.name)
+    }
+    deepMerge(merged, raw as Record<string, unknown>)
+  }
 
+  return { ...loadConfig(merged), sources }
+}
+
+function readLayer(layer: ConfigLayer): Partial<VirtualConfig> | undefined {
   let raw: unknown
   try {
-    raw = JSON.parse(readFileSync(configPath, "utf-8"))
+    raw = JSON.parse(readFileSync(layer.path, "utf-8"))
   } catch (err: unknown) {
-    // File not found is normal — plugin is installed but no virtual models defined yet
-    if ((err as NodeJS.ErrnoException).code === "ENOENT") return EMPTY
-    throw new Error(`[virtual-provider] Failed to parse ${configPath}: ${err}`)
+    // File not found is normal — plugin is installed but no virtual models defined yet.
+    // An explicitly configured env path that is missing is worth a warning though.
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      if (layer.name === "env") {
+        console.warn(`[virtual-provider] ${ROUTER_CONFIG_ENV} points to missing file ${layer.path}`)
+      }
+      return undefined
+    }
+    throw new Error(`[virtual-provider] Failed to parse ${layer.path}: ${err}`)
+  }
+
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`[virtual-provider] Failed to parse ${layer.path}: expected a JSON object`)
   }
+  return raw as Partial<VirtualConfig>
+}
+
+function appendSource(map: Map<string, ConfigLayerName[]>, key: string, layer: ConfigLayerName): void {
+  const existing = map.get(key)
+  if (existing) existing.push(layer)
+  else map.set(key, [layer])
+}
 
-  return loadConfig(raw)
+/**
+ * Human-readable listing of where each model and profile came from, e.g.
+ *   model virtual/work-build ← global, project
+ */
+export function formatConfigSources(config: LoadedConfig): string[] {
+  const sources = config.sources
+  if (!sources) return []
+
+  const lines = sources.layers.map((layer) => `layer ${layer.name}: ${layer.path}`)
+  for (const id of config.virtualModels.keys()) {
+    lines.push(`model ${id} ← ${(sources.models.get(id) ?? []).join(", ")}`)
+  }
+  for (const name of config.strategyProfiles.keys()) {
+    lines.push(`profile ${name} ← ${(sources.strategies.get(name) ?? []).join(", ")}`)
+  }
+  return lines
 }
 
 export function loadConfig(raw: unknown): LoadedConfig {
@@ -45,31 +168,38 @@ export function loadConfig(raw: unknown): LoadedConfig {
   const virtualModels = new Map<string, VirtualModelConfig>()
   const strategyProfiles = new Map<string, StrategyProfile>()
 
+  const issues = validateRawConfig(raw)
+  const isInvalid = (prefix: string) =>
+    issues.some((issue) => issue.path === prefix || issue.path.startsWith(`${prefix}.`))
+
   // Load strategy profiles
   for (const [name, profile] of Object.entries(config.strategies ?? {})) {
+    if (isInvalid(`strategies.${name}`)) continue
     strategyProfiles.set(name, profile)
   }
 
   // Load virtual model definitions
   for (const [name, model] of Object.entries(config.models ?? {})) {
-    if (!model.targets || model.targets.length === 0) {
-      console.warn(`[virtual-provider] Virtual model "${name}" has no targets, skipping`)
-      continue
-    }
+    if (isInvalid(`models.${name}`)) continue
     if (!model.strategy) {
       model.strategy = "sequential"
     }
-    if (model.strategy_profile && !strategyProfiles.has(model.strategy_profile)) {
-      console.warn(`[virtual-provider] Strategy profile "${model.strategy_profile}" not found for model "${name}"`)
-    }
     virtualModels.set(`virtual/${name}`, model)
   }
 
-  return { virtualModels, strategyProfiles, runtimeReplacement: config.runtimeReplacement }
+  return {
+    virtualModels,
+    strategyProfiles,
+    runtimeReplacement: config.runtimeReplacement,
+    cooldownGroups: isInvalid("cooldown_groups") ? undefined : config.cooldown_groups,
+    providerBudgets: isInvalid("provider_budgets") ? undefined : config.provider_budgets,
+    notifications: isInvalid("notifications") ? undefined : config.notifications,
+    errors: issues.map(formatIssue),
+  }
 }
 
 export function validateConfig(config: LoadedConfig): string[] {
-  const errors: string[] = []
+  const errors: string[] = [...(config.errors ?? [])]
 
   for (const [modelId, model] of config.virtualModels) {
     for (const target of model.targets) {
@@ -77,10 +207,10 @@ export function validateConfig(config: LoadedConfig): string[] {
         errors.push(`Model "${modelId}" has target missing model or provider field`)
       }
     }
-    if (model.strategy === "weighted") {
+    if (model.strategy === "weighted" || model.strategy === "weighted_round_robin") {
       const hasWeights = model.targets.every(t => t.weight !== undefined)
       if (!hasWeights) {
-        errors.push(`Model "${modelId}" uses weighted strategy but not all targets have weights`)
+        errors.push(`Model "${modelId}" uses ${model.strategy} strategy but not all targets have weights`)
       }
     }
   }
@@ -88,6 +218,63 @@ export function validateConfig(config: LoadedConfig): string[] {
   return errors
 }
 
+/**
+ * Differences between two loaded configs, used to decide which runtime state
+ * survives a hot reload.
+ */
+export interface ConfigDiff {
+  /** Virtual model IDs present before but not after */
+  removedVirtualModels: string[]
+  /** Virtual model IDs present in both whose definition changed */
+  changedVirtualModels: string[]
+  /** Target model keys no longer referenced by any virtual model */
+  removedModelKeys: string[]
+}
+
+export function diffLoadedConfig(previous: LoadedConfig, next: LoadedConfig): ConfigDiff {
+  const removedVirtualModels: string[] = []
+  const changedVirtualModels: string[] = []
+
+  for (const [id, model] of previous.virtualModels) {
+    const nextModel = next.virtualModels.get(id)
+    if (!nextModel) {
+      removedVirtualModels.push(id)
+    } else if (JSON.stringify(nextModel) !== JSON.stringify(model)) {
+      changedVirtualModels.push(id)
+    }
+  }
+
+  const nextKeys = collectModelKeys(next)
+  const removedModelKeys = [...collectModelKeys(previous)].filter((key) => !nextKeys.has(key))
+
+  return { removedVirtualModels, changedVirtualModels, removedModelKeys }
+}
+
+/** Every target a virtual model can route to: its own, its schedule windows', its experiment arms' and its last_resort */
+export function allTargets(model: VirtualModelConfig): TargetModel[] {
+  const targets = [...model.targets]
+  for (const window of model.schedules ?? []) targets.push(...window.targets)
+  for (const arm of model.experiment?.arms ?? []) targets.push(...(arm.targets ?? []))
+  if (model.last_resort) targets.push(model.last_resort)
+  return targets
+}
+
+/** All "provider/model" keys referenced by any target in the config */
+export function collectModelKeys(config: LoadedConfig): Set<string> {
+  const keys = new Set<string>()
+  for (const model of config.virtualModels.values()) {
+    for (const target of allTargets(model)) {
+      keys.add(targetModelKey(target))
+    }
+  }
+  return keys
+}
+
+/** The "provider/model" key used for cooldowns and metrics (e.g. "anthropic/claude-sonnet-4-6") */
+export function targetModelKey(target: TargetModel): string {
+  return `${target.provider}/${normalizeTargetModelForProvider(target.model, target.provider)}`
+}
+
 function normalizeTargetModelForProvider(targetModel: string, targetProvider: string): string {
   const providerPrefix = `${targetProvider}/`
   if (targetModel.startsWith(providerPrefix)) {
@@ -96,6 +283,23 @@ function normalizeTargetModelForProvider(targetModel: string, targetProvider: st
   return targetModel
 }
 
+/**
+ * Metadata advertised for a virtual model when none of its targets are in the
+ * catalog. Deliberately permissive so the alias stays usable.
+ */
+export const DEFAULT_VIRTUAL_MODEL_METADATA: ProviderCatalogModel = {
+  tool_call: true,
+  reasoning: true,
+  attachment: true,
+  temperature: true,
+  limit: { context: 200000, output: 16384 },
+}
+
+const CAPABILITY_FLAGS = ["tool_call", "attachment", "reasoning", "temperature"] as const
+
+// Transport details that belong to the real target, not to the virtual alias
+const TARGET_ONLY_FIELDS = ["provider", "options", "headers"] as const
+
 function cloneVirtualModelConfig(source: ProviderCatalogModel, virtualModelName: string): ProviderCatalogModel {
   const cloned = typeof structuredClone === "function"
     ? structuredClone(source)
@@ -108,9 +312,23 @@ function cloneVirtualModelConfig(source: ProviderCatalogModel, virtualModelName:
   return cloned as ProviderCatalogModel
 }
 
+function minLimit(models: ProviderCatalogModel[], field: "context" | "output"): number | undefined {
+  const values = models
+    .map((m) => (m.limit as { context?: unknown; output?: unknown } | undefined)?.[field])
+    .filter((v): v is number => typeof v === "number")
+  return values.length > 0 ? Math.min(...values) : undefined
+}
+
 /**
- * Build provider.virtual.models by inheriting metadata from each virtual model's
- * primary target (the first target in the strategy list).
+ * Build provider.virtual.models from the real catalog entries of each virtual
+ * model's targets.
+ *
+ * The result is the most conservative intersection across all targets found in
+ * the catalog: the smallest context/output limit, and a capability flag is only
+ * true if every target supports it. Other fields (cost, modalities, ...) come
+ * from the first target found. A model's `metadata` block in router.json is
+ * applied last and wins. Targets missing from the catalog are ignored; if none
+ * are found, DEFAULT_VIRTUAL_MODEL_METADATA is used.
  */
 export function buildVirtualProviderModels(
   config: LoadedConfig,
@@ -123,27 +341,38 @@ export function buildVirtualProviderModels(
       ? virtualModelID.slice("virtual/".length)
       : virtualModelID
 
-    const primaryTarget = virtualModel.targets[0]
-    if (!primaryTarget) continue
+    const sources: ProviderCatalogModel[] = []
+    for (const target of allTargets(virtualModel)) {
+      const source = findCatalogModel(catalog, target)
+      if (source) {
+        sources.push(source)
+      } else {
+        log(`buildVirtualProviderModels: ${targetModelKey(target)} not found in catalog, ignored for ${virtualModelID}`)
+      }
+    }
 
-    const providerEntry = catalog.find((entry) => entry.id === primaryTarget.provider)
-    if (!providerEntry) {
-      console.warn(
-        `[virtual-provider] Cannot register ${virtualModelID}: provider \"${primaryTarget.provider}\" not found in catalog`,
-      )
-      continue
+    let model: ProviderCatalogModel
+    if (sources.length === 0) {
+      model = cloneVirtualModelConfig(DEFAULT_VIRTUAL_MODEL_METADATA, virtualModelName)
+    } else {
+      model = cloneVirtualModelConfig(sources[0], virtualModelName)
+      for (const field of TARGET_ONLY_FIELDS) delete model[field]
+      for (const flag of CAPABILITY_FLAGS) {
+        model[flag] = sources.every((s) => s[flag] !== false)
+      }
+      const context = minLimit(sources, "context")
+      const output = minLimit(sources, "output")
+      if (context !== undefined && output !== undefined) {
+        model.limit = { context, output }
+      }
     }
 
-    const sourceModelID = normalizeTargetModelForProvider(primaryTarget.model, primaryTarget.provider)
-    const sourceModel = providerEntry.models[sourceModelID]
-    if (!sourceModel) {
-      console.warn(
-        `[virtual-provider] Cannot register ${virtualModelID}: model \"${sourceModelID}\" not found for provider \"${primaryTarget.provider}\"`,
-      )
-      continue
+    model.name = virtualModelName
+    if (virtualModel.metadata) {
+      deepMerge(model, structuredClone(virtualModel.metadata) as Record<string, unknown>)
     }
 
-    desiredModels[virtualModelName] = cloneVirtualModelConfig(sourceModel, virtualModelName)
+    desiredModels[virtualModelName] = model
   }
 
   return desiredModels
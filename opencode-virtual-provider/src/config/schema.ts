@@ -1,9 +1,111 @@
 export interface VirtualModelConfig {
-  strategy: "sequential" | "round_robin" | "random" | "weighted" | "priority"
+  strategy: "sequential" | "round_robin" | "random" | "weighted" | "weighted_round_robin" | "priority" | "fastest" | "cheapest" | "hedge"
   strategy_profile?: string  // Reference to a global strategy profile
-  fallback_on?: number[]     // HTTP status codes that trigger fallback
+  fallback_on?: FallbackOn   // HTTP status codes / error matchers that trigger a retry or fallback
   cooldown?: string          // Duration string (e.g., "5m", "15m")
   targets: TargetModel[]
+  metadata?: VirtualModelMetadata  // Overrides for the metadata inherited from the targets' catalog entries
+  last_resort?: TargetModel  // Used when on_fail is "last_resort" (default: the last target)
+  fastest?: FastestStrategyConfig  // Tuning for the fastest strategy
+  budget?: Budget            // Spend limit across all of this model's targets
+  agents?: Record<string, AgentRule>  // Agent name ("build", "plan", a subagent, or "*" for any other) → routing rule
+  schedules?: ScheduledTargets[]  // Alternative target lists for time windows; the first active one wins
+  affinity?: AffinityConfig  // Keep each session on its target across turns
+  hedge?: HedgeConfig        // Tuning for the hedge strategy
+  experiment?: ExperimentConfig  // Split sessions between alternative target lists
+}
+
+/**
+ * An A/B experiment: each session is assigned an arm by a hash of its ID and
+ * stays on it, so an arm's share of sessions follows its weight. Outside the
+ * start/end dates (local time, both inclusive) no session is assigned.
+ */
+export interface ExperimentConfig {
+  name: string  // Keys the collected metrics; rename to start a fresh experiment
+  start?: string  // "YYYY-MM-DD"
+  end?: string    // "YYYY-MM-DD"
+  arms: ExperimentArm[]
+}
+
+export interface ExperimentArm {
+  name: string
+  weight: number  // Share of sessions, relative to the other arms
+  targets?: TargetModel[]  // Replace the model's targets (default: the model's own, e.g. for a control arm)
+}
+
+/** A named time window with its own target list */
+export interface ScheduledTargets {
+  name: string
+  schedule: Schedule
+  targets: TargetModel[]
+}
+
+/**
+ * When a schedule is active. Every condition that is set must hold, evaluated
+ * in `timezone` (an IANA name; default: the system's local timezone).
+ */
+export interface Schedule {
+  timezone?: string
+  days?: Array<"mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun">
+  hours?: string  // "09:00-18:00", end exclusive; wraps past midnight if the end is earlier
+  dates?: { from?: string; to?: string }  // "YYYY-MM-DD", both inclusive
+}
+
+/**
+ * How requests from one agent are routed through a virtual model. Patterns
+ * match target model keys ("provider/model", "*" wildcards). `only` narrows
+ * the targets, `prefer` moves matching targets to the front in pattern order,
+ * and the strategy fields replace the model's own.
+ */
+export interface AgentRule {
+  only?: string[]
+  prefer?: string[]
+  strategy?: VirtualModelConfig["strategy"]
+  strategy_profile?: string
+}
+
+/** Spend limits in USD; a period resets at local midnight / the first of the month */
+export interface Budget {
+  daily?: number
+  monthly?: number
+}
+
+/**
+ * The fastest strategy orders targets by a blend of their moving-average
+ * time-to-first-token and total latency; targets without measurements go
+ * first so every target gets measured.
+ */
+export interface FastestStrategyConfig {
+  ttft_weight?: number       // 0–1 share of TTFT in the score; the rest is total latency (default 0.5)
+  exploration_rate?: number  // 0–1 chance to try a random slower target first (default 0.1)
+}
+
+/** Tuning for the hedge strategy (fetch pipeline only) */
+export interface HedgeConfig {
+  delay?: string          // Wait for the first target's first byte before hedging (default "2s")
+  max_in_flight?: number  // Open hedge requests allowed for this model at once (default 2)
+}
+
+/**
+ * Sticky per-session routing: a session stays on the target it was routed to
+ * until that target fails or cools down. `{}` pins without a time limit.
+ */
+export interface AffinityConfig {
+  max_duration?: string  // Re-balance a session after this long on one target, e.g. "30m"
+}
+
+/**
+ * Model metadata advertised to OpenCode for a virtual alias.
+ * By default it is the intersection of the targets' catalog entries
+ * (smallest limits, capability flags ANDed); any field set here wins.
+ */
+export interface VirtualModelMetadata {
+  name?: string
+  limit?: { context?: number; output?: number }
+  tool_call?: boolean
+  attachment?: boolean
+  reasoning?: boolean
+  temperature?: boolean
 }
 
 /**
@@ -11,31 +113,162 @@ export interface VirtualModelConfig {
  * Profiles fill in defaults for fields not specified on the model itself.
  */
 export interface ResolvedModelConfig {
-  fallback_on: number[] | ["any_error"]
-  cooldown?: string
+  fallback_on: FallbackOn
+  cooldown: string
   max_retries: number
   backoff?: StrategyProfile["backoff"]
-  on_fail: "throw" | "continue_with_next"
+  on_fail: OnFailPolicy
+  max_wait: string
+  timeout?: string
+  min_cooldown?: string
+  max_cooldown?: string
+  circuit_breaker: Required<CircuitBreakerConfig>
+  cooldown_scope: CooldownScope
+  scope_on?: FailureList
+  fail_back: FailBackPolicy
+  fail_back_messages: number
+  recovery: Required<RecoveryConfig>
 }
 
+/**
+ * What counts as a failure worth acting on, checked in order; the first entry
+ * a failure matches decides what happens. HTTP status codes, "timeout" (a
+ * missed time-to-first-byte deadline) and "any_error" (every failure) retry
+ * the target and then fall back; an ErrorMatcher picks its own action.
+ * "any_error" may be combined with matchers but not with status codes.
+ */
+export type FallbackOn = Array<number | "timeout" | "any_error" | ErrorMatcher>
+
+/** A plain list of failure classes: status codes and "timeout", or ["any_error"] */
+export type FailureList = Array<number | "timeout"> | ["any_error"]
+
+/**
+ * A structured fallback_on entry for errors a status code alone does not
+ * tell apart, e.g. an overload reported as a 400. Every field that is set
+ * must match.
+ */
+export interface ErrorMatcher {
+  status?: number          // HTTP status code
+  name?: string            // Error name, e.g. "APIError" or "ProviderAuthError"
+  is_retryable?: boolean   // The provider SDK's retryable flag
+  message?: string         // Regular expression (case-insensitive) on the error message
+  action?: ErrorAction     // Default "retry"
+}
+
+/**
+ * What to do about a matched failure:
+ * - retry:    retry the target per max_retries and backoff, then fall back
+ * - fallback: move on to the next target straight away
+ * - cooldown: bench the target for later requests, but pass this error on
+ * - surface:  pass the error on to the user and leave the target alone
+ */
+export type ErrorAction = "retry" | "fallback" | "cooldown" | "surface"
+
+/**
+ * What to do once every target of a virtual model is exhausted:
+ * - throw:              surface a clear error to the session
+ * - continue_with_next: leave the request alone (the original behaviour)
+ * - wait_for_cooldown:  wait for the earliest cooldown to expire, up to max_wait
+ * - last_resort:        use the model's last_resort target, ignoring cooldowns
+ */
+export type OnFailPolicy = "throw" | "continue_with_next" | "wait_for_cooldown" | "last_resort"
+
+/**
+ * When a session that fell back returns to higher-priority targets:
+ * - never:            stay on the fallback target (the original behaviour)
+ * - after_cooldown:   as soon as an earlier target is out of cooldown
+ * - after_n_messages: after fail_back_messages messages on the fallback target
+ */
+export type FailBackPolicy = "never" | "after_cooldown" | "after_n_messages"
+
 export interface TargetModel {
   model: string     // e.g., "anthropic/claude-sonnet-4"
   provider: string  // e.g., "anthropic"
   weight?: number   // For weighted strategy
+  cost?: TargetCost  // Token prices; defaults to the provider catalog's
+  context_limit?: number  // Context window in tokens; defaults to the provider catalog's limit.context
+  capabilities?: TargetCapabilities  // Capability flags; default to the provider catalog's
+  schedule?: Schedule  // Only route here while the schedule is active
+}
+
+/**
+ * What a target can handle. Requests that need a capability the target lacks
+ * skip it; an unset flag (here and in the catalog) counts as supported.
+ */
+export interface TargetCapabilities {
+  tool_call?: boolean   // Tool definitions and tool-call history
+  attachment?: boolean  // Image and document attachments
+  reasoning?: boolean   // Extended thinking / reasoning effort
+}
+
+/** USD per million tokens, in the same shape as the models.dev catalog */
+export interface TargetCost {
+  input?: number
+  output?: number
+  cache_read?: number
+  cache_write?: number
 }
 
 export interface StrategyProfile {
   max_retries: number
-  timeout?: string
+  timeout?: string  // Time-to-first-byte deadline per target request (e.g. "30s")
   backoff?: {
     type: "exponential" | "linear" | "fixed"
     initial: string
     multiplier?: number
     max?: string
   }
-  fallback_on: number[] | ["any_error"]
-  on_fail?: "throw" | "continue_with_next"
+  fallback_on: FallbackOn
+  on_fail?: OnFailPolicy
+  max_wait?: string  // Longest wait for on_fail "wait_for_cooldown" (default "1m")
   cooldown?: string
+  min_cooldown?: string  // Lower bound for provider-stated (Retry-After etc.) cooldowns
+  max_cooldown?: string  // Upper bound for provider-stated cooldowns
+  circuit_breaker?: CircuitBreakerConfig
+  cooldown_scope?: CooldownScope  // What a benched target takes down with it (default "model")
+  scope_on?: FailureList          // Failures that bench the whole scope (default: every failure)
+  fail_back?: FailBackPolicy      // When sessions return to earlier targets (default "never")
+  fail_back_messages?: number     // Messages on a fallback target before "after_n_messages" fails back (default 10)
+  recovery?: RecoveryConfig       // How a session resumes after a session.error retry or fallback
+}
+
+/**
+ * How the session.error handler resumes a session on the retried or
+ * fallback target:
+ * - resend:   send the failed turn's user message again (the default)
+ * - continue: send `message` as a new user turn
+ * - switch:   only route the session's next message there, and tell the user
+ * At most max_reprompts re-prompts are sent per session within `window`;
+ * beyond that the session is switched as with "switch".
+ */
+export interface RecoveryConfig {
+  mode?: "resend" | "continue" | "switch"
+  message?: string        // The "continue" instruction (default "Continue where you left off.")
+  max_reprompts?: number  // Default 10
+  window?: string         // Default "10m"
+}
+
+/**
+ * What a cooldown benches: the failing target only ("model"), every target of
+ * the same provider ("provider"), or every target matching a named group in
+ * VirtualConfig.cooldown_groups. A target outside the named group falls back
+ * to "model".
+ */
+export type CooldownScope = "model" | "provider" | (string & {})
+
+/**
+ * Per-target circuit breaker. A target trips open when its retries are used up,
+ * or when its failure rate over the sliding window reaches failure_rate. Each
+ * repeated trip multiplies the open duration (starting from the cooldown) by
+ * multiplier, up to max_open; after the open period one probe request is let
+ * through (half-open) before the breaker closes again.
+ */
+export interface CircuitBreakerConfig {
+  failure_rate?: number  // 0–1, default 0.5
+  window?: string        // Sliding window for the failure rate (default "1m")
+  min_requests?: number  // Requests in the window before the rate counts (default 5)
+  multiplier?: number    // Open-duration growth per repeated trip (default 2)
+  max_open?: string      // Cap for the open duration; also how long a target must stay closed to reset escalation (default "1h")
 }
 
 /**
@@ -52,9 +285,31 @@ export interface RuntimeReplacement {
   [key: string]: unknown
 }
 
-// Shape of config/opencode/router.json
+// Shape of config/opencode/router.json (JSON Schema: router.schema.json)
 export interface VirtualConfig {
+  $schema?: string
   models: Record<string, VirtualModelConfig>
   strategies?: Record<string, StrategyProfile>
   runtimeReplacement?: RuntimeReplacement
+  /** Group name → model key patterns ("provider/model", "*" wildcards) for cooldown_scope */
+  cooldown_groups?: Record<string, string[]>
+  /** Provider ID → spend limit across every virtual model routing to it */
+  provider_budgets?: Record<string, Budget>
+  /** TUI toasts for routing events */
+  notifications?: NotificationsConfig
+}
+
+/**
+ * Which routing events are shown as TUI toasts:
+ * - off:     none
+ * - errors:  every target exhausted
+ * - normal:  also fallbacks and fail-backs (the default)
+ * - verbose: also every target or cooldown scope that is benched
+ */
+export type NotificationLevel = "off" | "errors" | "normal" | "verbose"
+
+export interface NotificationsConfig {
+  level?: NotificationLevel
+  min_interval?: string  // A repeated notice about the same model is dropped within this (default "30s")
+  duration?: string      // How long a toast stays up (OpenCode's default when unset)
 }
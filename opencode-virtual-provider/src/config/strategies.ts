@@ -1,4 +1,40 @@
-import type { VirtualModelConfig, StrategyProfile, ResolvedModelConfig } from "./schema.js"
+import type {
+  VirtualModelConfig,
+  StrategyProfile,
+  ResolvedModelConfig,
+  FallbackOn,
+  CircuitBreakerConfig,
+  RecoveryConfig,
+} from "./schema.js"
+
+/** fallback_on used when neither the model nor its profile sets one */
+export const DEFAULT_FALLBACK_ON: FallbackOn = [429, 500, 503]
+
+/** Cooldown applied to a failed target when neither the model nor its profile sets one */
+export const DEFAULT_COOLDOWN = "5m"
+
+/** Circuit breaker settings used for anything the profile does not set */
+export const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerConfig> = {
+  failure_rate: 0.5,
+  window: "1m",
+  min_requests: 5,
+  multiplier: 2,
+  max_open: "1h",
+}
+
+/** Longest wait for on_fail "wait_for_cooldown" when the profile does not set max_wait */
+export const DEFAULT_MAX_WAIT = "1m"
+
+/** Messages on a fallback target before fail_back "after_n_messages" tries earlier targets again */
+export const DEFAULT_FAIL_BACK_MESSAGES = 10
+
+/** Session recovery settings used for anything the profile does not set */
+export const DEFAULT_RECOVERY: Required<RecoveryConfig> = {
+  mode: "resend",
+  message: "Continue where you left off.",
+  max_reprompts: 10,
+  window: "10m",
+}
 
 export function resolveProfile(
   model: VirtualModelConfig,
@@ -18,13 +54,23 @@ export function mergeWithProfile(
   profile: StrategyProfile | null
 ): ResolvedModelConfig {
   const fallbackFromProfile = profile?.fallback_on
-  const fallbackOn = modelConfig.fallback_on ?? fallbackFromProfile ?? [429, 500, 503]
+  const fallbackOn = modelConfig.fallback_on ?? fallbackFromProfile ?? DEFAULT_FALLBACK_ON
 
   return {
     fallback_on: fallbackOn,
-    cooldown: modelConfig.cooldown ?? profile?.cooldown,
+    cooldown: modelConfig.cooldown ?? profile?.cooldown ?? DEFAULT_COOLDOWN,
     max_retries: profile?.max_retries ?? 0,
     backoff: profile?.backoff,
     on_fail: profile?.on_fail ?? "continue_with_next",
+    max_wait: profile?.max_wait ?? DEFAULT_MAX_WAIT,
+    timeout: profile?.timeout,
+    min_cooldown: profile?.min_cooldown,
+    max_cooldown: profile?.max_cooldown,
+    circuit_breaker: { ...DEFAULT_CIRCUIT_BREAKER, ...profile?.circuit_breaker },
+    cooldown_scope: profile?.cooldown_scope ?? "model",
+    scope_on: profile?.scope_on,
+    fail_back: profile?.fail_back ?? "never",
+    fail_back_messages: profile?.fail_back_messages ?? DEFAULT_FAIL_BACK_MESSAGES,
+    recovery: { ...DEFAULT_RECOVERY, ...profile?.recovery },
   }
 }
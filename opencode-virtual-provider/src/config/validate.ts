@@ -0,0 +1,481 @@
+/**
+ * Structural validation of raw router.json content.
+ *
+ * Every field of the shapes in schema.ts is checked (types, enums, duration
+ * syntax, status-code ranges, unknown keys) so that typos are reported at load
+ * time instead of surfacing as a thrown error mid-request. Each issue carries
+ * the JSON path of the offending value, e.g. `models.work-build.targets[1].weight`.
+ *
+ * Keep this file in sync with schema.ts and router.schema.json.
+ */
+
+import { isValidDuration } from "../util/duration.js"
+import { compileKeyPattern } from "../util/pattern.js"
+import { DATE, HOUR_RANGE, WEEKDAYS, isValidTimezone, parseHourRange } from "../util/schedule.js"
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void
+
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message
+}
+
+// ── Check combinators ─────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value === "string" ? JSON.stringify(value) : typeof value
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+const string: Check = (value, path, issues) => {
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push({ path, message: `expected a non-empty string, got ${describeValue(value)}` })
+  }
+}
+
+const boolean: Check = (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push({ path, message: `expected a boolean, got ${describeValue(value)}` })
+  }
+}
+
+const duration: Check = (value, path, issues) => {
+  if (typeof value !== "string" || !isValidDuration(value)) {
+    issues.push({ path, message: `expected a duration like "500ms", "30s", "5m" or "1h", got ${describeValue(value)}` })
+  }
+}
+
+function oneOf(...allowed: string[]): Check {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      issues.push({ path, message: `expected one of ${allowed.map((a) => `"${a}"`).join(", ")}, got ${describeValue(value)}` })
+    }
+  }
+}
+
+function number(opts: { min?: number; max?: number; integer?: boolean; exclusiveMin?: boolean } = {}): Check {
+  return (value, path, issues) => {
+    const kind = opts.integer ? "an integer" : "a number"
+    if (typeof value !== "number" || !Number.isFinite(value) || (opts.integer && !Number.isInteger(value))) {
+      issues.push({ path, message: `expected ${kind}, got ${describeValue(value)}` })
+      return
+    }
+    if (opts.min !== undefined && (opts.exclusiveMin ? value <= opts.min : value < opts.min)) {
+      issues.push({ path, message: `expected ${kind} ${opts.exclusiveMin ? ">" : ">="} ${opts.min}, got ${value}` })
+    }
+    if (opts.max !== undefined && value > opts.max) {
+      issues.push({ path, message: `expected ${kind} <= ${opts.max}, got ${value}` })
+    }
+  }
+}
+
+function arrayOf(item: Check, opts: { minItems?: number } = {}): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected an array, got ${describeValue(value)}` })
+      return
+    }
+    if (opts.minItems !== undefined && value.length < opts.minItems) {
+      issues.push({ path, message: `expected at least ${opts.minItems} item(s)` })
+    }
+    value.forEach((v, i) => item(v, `${path}[${i}]`, issues))
+  }
+}
+
+function recordOf(item: Check): Check {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected an object, got ${describeValue(value)}` })
+      return
+    }
+    for (const [key, v] of Object.entries(value)) item(v, childPath(path, key), issues)
+  }
+}
+
+function object(
+  fields: Record<string, Check>,
+  opts: { required?: string[]; allowUnknown?: boolean } = {},
+): Check {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected an object, got ${describeValue(value)}` })
+      return
+    }
+    for (const key of opts.required ?? []) {
+      if (value[key] === undefined) issues.push({ path: childPath(path, key), message: "is required" })
+    }
+    for (const [key, v] of Object.entries(value)) {
+      const check = fields[key]
+      if (check) {
+        if (v !== undefined) check(v, childPath(path, key), issues)
+      } else if (!opts.allowUnknown) {
+        issues.push({ path: childPath(path, key), message: "unknown key" })
+      }
+    }
+  }
+}
+
+// ── router.json shapes ────────────────────────────────────────────────────────
+
+const statusCode = number({ integer: true, min: 100, max: 599 })
+
+const failureList: Check = (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array of HTTP status codes / "timeout", or ["any_error"], got ${describeValue(value)}` })
+    return
+  }
+  if (value.includes("any_error")) {
+    if (value.length !== 1) {
+      issues.push({ path, message: `"any_error" must be the only entry` })
+    }
+    return
+  }
+  value.forEach((v, i) => {
+    if (v !== "timeout") statusCode(v, `${path}[${i}]`, issues)
+  })
+}
+
+const regex: Check = (value, path, issues) => {
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push({ path, message: `expected a regular expression, got ${describeValue(value)}` })
+    return
+  }
+  try {
+    new RegExp(value, "i")
+  } catch (err) {
+    issues.push({ path, message: `invalid regular expression: ${err instanceof Error ? err.message : err}` })
+  }
+}
+
+const errorMatcherFields = {
+  status: statusCode,
+  name: string,
+  is_retryable: boolean,
+  message: regex,
+  action: oneOf("retry", "fallback", "cooldown", "surface"),
+}
+
+const errorMatcher = object(errorMatcherFields)
+
+const fallbackOn: Check = (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array of HTTP status codes / "timeout" / error matchers, or ["any_error"], got ${describeValue(value)}` })
+    return
+  }
+  const plain = value.filter((v) => !isPlainObject(v))
+  if (plain.includes("any_error") && plain.length !== 1) {
+    issues.push({ path, message: `"any_error" may only be combined with error matchers` })
+    return
+  }
+  value.forEach((v, i) => {
+    const itemPath = `${path}[${i}]`
+    if (isPlainObject(v)) {
+      errorMatcher(v, itemPath, issues)
+      if (!Object.keys(v).some((key) => key !== "action" && key in errorMatcherFields)) {
+        issues.push({ path: itemPath, message: "expected at least one of status, name, is_retryable or message" })
+      }
+    } else if (v !== "timeout" && v !== "any_error") {
+      statusCode(v, itemPath, issues)
+    }
+  })
+}
+
+const price = number({ min: 0 })
+
+const timezone: Check = (value, path, issues) => {
+  if (typeof value !== "string" || !isValidTimezone(value)) {
+    issues.push({ path, message: `expected an IANA timezone like "Europe/Berlin", got ${describeValue(value)}` })
+  }
+}
+
+const hourRange: Check = (value, path, issues) => {
+  if (typeof value !== "string" || !HOUR_RANGE.test(value)) {
+    issues.push({ path, message: `expected an hour range like "09:00-18:00", got ${describeValue(value)}` })
+  } else if (parseHourRange(value).start === parseHourRange(value).end) {
+    issues.push({ path, message: `hour range ${describeValue(value)} is empty; its start and end must differ` })
+  }
+}
+
+const date: Check = (value, path, issues) => {
+  if (typeof value !== "string" || !DATE.test(value)) {
+    issues.push({ path, message: `expected a date like "2026-12-24", got ${describeValue(value)}` })
+  }
+}
+
+const schedule = object({
+  timezone,
+  days: arrayOf(oneOf(...WEEKDAYS), { minItems: 1 }),
+  hours: hourRange,
+  dates: object({ from: date, to: date }),
+})
+
+const targetModel = object(
+  {
+    model: string,
+    provider: string,
+    weight: number({ min: 0 }),
+    cost: object({ input: price, output: price, cache_read: price, cache_write: price }),
+    context_limit: number({ min: 1, integer: true }),
+    capabilities: object({ tool_call: boolean, attachment: boolean, reasoning: boolean }),
+    schedule,
+  },
+  { required: ["model", "provider"] },
+)
+
+const tokenLimit = number({ integer: true, min: 1 })
+
+const budget = object({ daily: price, monthly: price })
+
+const virtualModelMetadata = object({
+  name: string,
+  limit: object({ context: tokenLimit, output: tokenLimit }),
+  tool_call: boolean,
+  attachment: boolean,
+  reasoning: boolean,
+  temperature: boolean,
+})
+
+/** Strategies that need a weight on every target */
+function isWeightedStrategy(value: unknown): boolean {
+  return value === "weighted" || value === "weighted_round_robin"
+}
+
+const strategy = oneOf("sequential", "round_robin", "random", "weighted", "weighted_round_robin", "priority", "fastest", "cheapest", "hedge")
+
+const agentRule = object({
+  only: arrayOf(string, { minItems: 1 }),
+  prefer: arrayOf(string, { minItems: 1 }),
+  strategy,
+  strategy_profile: string,
+})
+
+const virtualModel = object(
+  {
+    strategy,
+    strategy_profile: string,
+    fallback_on: fallbackOn,
+    cooldown: duration,
+    targets: arrayOf(targetModel, { minItems: 1 }),
+    metadata: virtualModelMetadata,
+    last_resort: targetModel,
+    fastest: object({
+      ttft_weight: number({ min: 0, max: 1 }),
+      exploration_rate: number({ min: 0, max: 1 }),
+    }),
+    budget,
+    agents: recordOf(agentRule),
+    affinity: object({ max_duration: duration }),
+    hedge: object({ delay: duration, max_in_flight: number({ integer: true, min: 1 }) }),
+    schedules: arrayOf(
+      object(
+        { name: string, schedule, targets: arrayOf(targetModel, { minItems: 1 }) },
+        { required: ["name", "schedule", "targets"] },
+      ),
+    ),
+    experiment: object(
+      {
+        name: string,
+        start: date,
+        end: date,
+        arms: arrayOf(
+          object(
+            { name: string, weight: number({ min: 0 }), targets: arrayOf(targetModel, { minItems: 1 }) },
+            { required: ["name", "weight"] },
+          ),
+          { minItems: 2 },
+        ),
+      },
+      { required: ["name", "arms"] },
+    ),
+  },
+  { required: ["targets"] },
+)
+
+const strategyProfile = object(
+  {
+    max_retries: number({ integer: true, min: 0 }),
+    timeout: duration,
+    backoff: object(
+      {
+        type: oneOf("exponential", "linear", "fixed"),
+        initial: duration,
+        multiplier: number({ min: 0, exclusiveMin: true }),
+        max: duration,
+      },
+      { required: ["type", "initial"] },
+    ),
+    fallback_on: fallbackOn,
+    on_fail: oneOf("throw", "continue_with_next", "wait_for_cooldown", "last_resort"),
+    max_wait: duration,
+    cooldown: duration,
+    min_cooldown: duration,
+    max_cooldown: duration,
+    circuit_breaker: object({
+      failure_rate: number({ min: 0, max: 1, exclusiveMin: true }),
+      window: duration,
+      min_requests: number({ integer: true, min: 1 }),
+      multiplier: number({ min: 1 }),
+      max_open: duration,
+    }),
+    cooldown_scope: string,
+    scope_on: failureList,
+    fail_back: oneOf("never", "after_cooldown", "after_n_messages"),
+    fail_back_messages: number({ integer: true, min: 1 }),
+    recovery: object({
+      mode: oneOf("resend", "continue", "switch"),
+      message: string,
+      max_reprompts: number({ integer: true, min: 1 }),
+      window: duration,
+    }),
+  },
+  { required: ["max_retries", "fallback_on"] },
+)
+
+// runtimeReplacement mirrors opencode.json, which has its own schema; only the
+// fields this plugin documents are checked.
+const runtimeReplacement = object(
+  {
+    model: string,
+    small_model: string,
+    agent: recordOf(object({ model: string, mode: string }, { allowUnknown: true })),
+  },
+  { allowUnknown: true },
+)
+
+const routerConfig = object({
+  $schema: string,
+  models: recordOf(virtualModel),
+  strategies: recordOf(strategyProfile),
+  runtimeReplacement,
+  cooldown_groups: recordOf(arrayOf(string, { minItems: 1 })),
+  provider_budgets: recordOf(budget),
+  notifications: object({
+    level: oneOf("off", "errors", "normal", "verbose"),
+    min_interval: duration,
+    duration,
+  }),
+})
+
+/**
+ * Validate raw (merged) router.json content. Returns an empty array when valid.
+ */
+export function validateRawConfig(raw: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  routerConfig(raw, "", issues)
+  if (!isPlainObject(raw)) return issues
+
+  // Cross-field checks that a per-field schema cannot express
+  const strategies = isPlainObject(raw.strategies) ? raw.strategies : {}
+  const groups = isPlainObject(raw.cooldown_groups) ? raw.cooldown_groups : {}
+  for (const [name, profile] of Object.entries(strategies)) {
+    if (!isPlainObject(profile) || typeof profile.cooldown_scope !== "string") continue
+    const scope = profile.cooldown_scope
+    if (scope !== "model" && scope !== "provider" && !(scope in groups)) {
+      issues.push({
+        path: `strategies.${name}.cooldown_scope`,
+        message: `expected "model", "provider" or a cooldown_groups name, got ${describeValue(scope)}`,
+      })
+    }
+  }
+
+  const models = isPlainObject(raw.models) ? raw.models : {}
+  for (const [name, model] of Object.entries(models)) {
+    if (!isPlainObject(model)) continue
+    const path = `models.${name}`
+
+    if (typeof model.strategy_profile === "string" && !(model.strategy_profile in strategies)) {
+      issues.push({ path: `${path}.strategy_profile`, message: `unknown strategy profile "${model.strategy_profile}"` })
+    }
+
+    if (isWeightedStrategy(model.strategy)) {
+      const lists: Array<[string, unknown]> = [[`${path}.targets`, model.targets]]
+      if (Array.isArray(model.schedules)) {
+        model.schedules.forEach((window, w) => {
+          if (isPlainObject(window)) lists.push([`${path}.schedules[${w}].targets`, window.targets])
+        })
+      }
+      const arms = isPlainObject(model.experiment) && Array.isArray(model.experiment.arms) ? model.experiment.arms : []
+      arms.forEach((arm, a) => {
+        if (isPlainObject(arm)) lists.push([`${path}.experiment.arms[${a}].targets`, arm.targets])
+      })
+      for (const [listPath, list] of lists) {
+        if (!Array.isArray(list)) continue
+        list.forEach((target, i) => {
+          if (isPlainObject(target) && target.weight === undefined) {
+            issues.push({ path: `${listPath}[${i}].weight`, message: `is required by the ${model.strategy} strategy` })
+          }
+        })
+      }
+    }
+
+    if (isPlainObject(model.experiment)) {
+      const { start, end, arms } = model.experiment
+      if (typeof start === "string" && typeof end === "string" && DATE.test(start) && DATE.test(end) && start > end) {
+        issues.push({ path: `${path}.experiment.end`, message: `is before start ${JSON.stringify(start)}` })
+      }
+      if (Array.isArray(arms)) {
+        const seen = new Set<string>()
+        arms.forEach((arm, a) => {
+          if (!isPlainObject(arm) || typeof arm.name !== "string") return
+          if (seen.has(arm.name)) issues.push({ path: `${path}.experiment.arms[${a}].name`, message: `duplicate arm "${arm.name}"` })
+          seen.add(arm.name)
+        })
+        const weights = arms.filter(isPlainObject).map((arm) => arm.weight)
+        if (weights.every((w) => typeof w === "number") && weights.every((w) => w === 0)) {
+          issues.push({ path: `${path}.experiment.arms`, message: "at least one arm needs a weight > 0" })
+        }
+      }
+    }
+
+    const agents = isPlainObject(model.agents) ? model.agents : {}
+    const targetList = (value: unknown) => (Array.isArray(value) ? value : []).filter(isPlainObject)
+    const keyOf = (t: Record<string, unknown>) => {
+      const prefix = `${t.provider}/`
+      return typeof t.model === "string" && t.model.startsWith(prefix) ? `${t.provider}/${t.model.slice(prefix.length)}` : `${t.provider}/${t.model}`
+    }
+    const targets = targetList(model.targets)
+    // Every list an agent rule narrows: the model's own, each schedule window's and each arm's
+    const targetLists: Array<{ label: string; keys: string[] }> = [{ label: "the model's targets", keys: targets.map(keyOf) }]
+    targetList(model.schedules).forEach((window, w) => {
+      if (Array.isArray(window.targets)) targetLists.push({ label: `the targets of schedules[${w}]`, keys: targetList(window.targets).map(keyOf) })
+    })
+    const experiment = isPlainObject(model.experiment) ? model.experiment : {}
+    targetList(experiment.arms).forEach((arm, a) => {
+      if (Array.isArray(arm.targets)) targetLists.push({ label: `the targets of experiment.arms[${a}]`, keys: targetList(arm.targets).map(keyOf) })
+    })
+    for (const [agent, rule] of Object.entries(agents)) {
+      if (!isPlainObject(rule)) continue
+      const rulePath = `${path}.agents.${agent}`
+
+      if (typeof rule.strategy_profile === "string" && !(rule.strategy_profile in strategies)) {
+        issues.push({ path: `${rulePath}.strategy_profile`, message: `unknown strategy profile "${rule.strategy_profile}"` })
+      }
+      if (isWeightedStrategy(rule.strategy) && targets.some((t) => t.weight === undefined)) {
+        issues.push({ path: `${rulePath}.strategy`, message: `the ${rule.strategy} strategy requires a weight on every target` })
+      }
+      if (Array.isArray(rule.only) && rule.only.every((p) => typeof p === "string")) {
+        const patterns = (rule.only as string[]).map(compileKeyPattern)
+        for (const { label, keys } of targetLists) {
+          if (!keys.some((key) => patterns.some((p) => p.test(key)))) {
+            issues.push({ path: `${rulePath}.only`, message: `matches none of ${label}` })
+          }
+        }
+      }
+    }
+  }
+
+  return issues
+}
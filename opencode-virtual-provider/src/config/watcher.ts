@@ -0,0 +1,84 @@
+import { existsSync, watch } from "node:fs"
+import type { FSWatcher } from "node:fs"
+import { basename, dirname } from "node:path"
+import { log } from "../util/logger.js"
+
+/**
+ * Watch a single config file for changes.
+ *
+ * Watches the parent directory rather than the file itself: most editors save
+ * by writing a temp file and renaming it over the original, which silently
+ * detaches a file-level watcher from the new inode.
+ *
+ * A directory that does not exist (yet) is waited for by watching its nearest
+ * existing ancestor; once it appears the watch moves down to it, and back up
+ * if it is removed again.
+ *
+ * Bursts of events (write + rename + chmod) are debounced into a single
+ * onChange call. Returns a function that stops watching, or null if nothing
+ * could be watched.
+ */
+export function watchConfigFile(
+  filePath: string,
+  onChange: () => void,
+  debounceMs = 100,
+): (() => void) | null {
+  const dir = dirname(filePath)
+  const file = basename(filePath)
+
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let watcher: FSWatcher | null = null
+  let watched: string | null = null
+
+  const schedule = (): void => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      onChange()
+    }, debounceMs)
+  }
+
+  const attach = (): boolean => {
+    const target = nearestExisting(dir)
+    let next: FSWatcher
+    try {
+      next = watch(target, { persistent: false }, (_event, changed) => {
+        if (target === dir && existsSync(dir)) {
+          if (!changed || changed.toString() === file) schedule()
+          return
+        }
+        // Waiting for dir, or dir was removed: follow it once the nearest
+        // existing directory on its path changes
+        if (nearestExisting(dir) === target) return
+        if (attach() && (existsSync(filePath) || target === dir)) schedule()
+      })
+    } catch (err) {
+      log(`watchConfigFile: cannot watch ${target}: ${err}`)
+      return false
+    }
+    next.on("error", (err) => log(`watchConfigFile: watcher error on ${target}: ${err}`))
+    watcher?.close()
+    watcher = next
+    watched = target
+    return true
+  }
+
+  if (!attach()) return null
+  if (watched !== dir) log(`watchConfigFile: ${dir} does not exist, watching ${watched} until it does`)
+
+  return () => {
+    if (timer) clearTimeout(timer)
+    watcher?.close()
+  }
+}
+
+/** The path itself if it exists, else its closest existing ancestor */
+function nearestExisting(path: string): string {
+  let current = path
+  while (!existsSync(current)) {
+    const parent = dirname(current)
+    if (parent === current) break
+    current = parent
+  }
+  return current
+}
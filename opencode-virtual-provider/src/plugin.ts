@@ -0,0 +1,1030 @@
+import type { Plugin, PluginInput, Hooks } from "@opencode-ai/plugin"
+import type { Config } from "@opencode-ai/sdk"
+import {
+  loadConfigFromDirectory,
+  validateConfig,
+  getConfigLayers,
+  diffLoadedConfig,
+  formatConfigSources,
+  buildVirtualProviderModels,
+  targetModelKey,
+} from "./config/loader.js"
+import type { LoadedConfig, ProviderCatalogEntry } from "./config/loader.js"
+import { loadProviderCatalog } from "./config/catalog.js"
+import { watchConfigFile } from "./config/watcher.js"
+import { routeFetch } from "./router/fetch.js"
+import { computeBackoffDelay, classifyFailure } from "./router/backoff.js"
+import { describeError, errorAction } from "./router/classify.js"
+import { resolveExhaustion } from "./router/exhaustion.js"
+import { FirstByteTimeoutError } from "./router/timeout.js"
+import { repromptParts, resendableParts, takeReprompt } from "./router/recovery.js"
+import type { PromptPart } from "./router/recovery.js"
+import { createNotifier } from "./router/notify.js"
+import { createRouterTools } from "./tools.js"
+import type { RouteDecision, SessionRouting } from "./tools.js"
+import type { Toast } from "./router/notify.js"
+import { parseRateLimitReset, cooldownFor } from "./router/ratelimit.js"
+import { createRouterState } from "./router/state.js"
+import type { RouterState } from "./router/state.js"
+import { isInCooldown, recordFailure, recordFallback, recordSuccess, pruneState, benchScope, setCooldownGroups } from "./router/state.js"
+import { setCatalogPrices, refreshBudgets, recordSpend, spendForMessage, loadSpend, saveSpend, getSpendPath } from "./router/budget.js"
+import {
+  setContextLimits,
+  contextLimit,
+  fitsContext,
+  estimatePartsTokens,
+  contextTokensOf,
+  isContextLengthError,
+} from "./router/context.js"
+import { setCatalogCapabilities, missingCapabilities, partsCapabilities, describeCapabilities, noCapableTargetError } from "./router/capabilities.js"
+import type { Capability } from "./router/capabilities.js"
+import { agentRule, applyAgentRule } from "./router/agents.js"
+import { affinityExpired, pinTarget } from "./router/affinity.js"
+import { activeTargets } from "./router/schedule.js"
+import type { SessionAffinity } from "./router/affinity.js"
+import {
+  isExperimentActive,
+  assignArm,
+  applyExperimentArm,
+  recordArmSession,
+  recordArmMessage,
+  recordArmError,
+  recordArmFallback,
+} from "./router/experiment.js"
+import { noteDispatch, noteFailure, noteSuccess, tripBreaker } from "./router/breaker.js"
+import { log, logCooldown, logFailBack, warn } from "./util/logger.js"
+import { deepMerge } from "./util/merge.js"
+import { parseDuration } from "./util/duration.js"
+import type { ExperimentArm, ResolvedModelConfig, TargetModel, VirtualModelConfig } from "./config/schema.js"
+import { resolveProfile, mergeWithProfile, DEFAULT_RECOVERY } from "./config/strategies.js"
+
+const DEBUG = typeof process !== "undefined" && process.env["DEBUG"] === "virtual-provider"
+
+export interface VirtualProviderPluginOptions {
+  /** Router state to use instead of a fresh one (tests inject a fake clock this way) */
+  state?: RouterState
+  /** File the spend ledgers are kept in across restarts (default: getSpendPath()) */
+  spendPath?: string
+}
+
+/**
+ * Build the plugin. Kept out of index.ts because OpenCode calls every function
+ * exported from the plugin entry module as a plugin.
+ */
+export function createVirtualProviderPlugin(options: VirtualProviderPluginOptions = {}): Plugin {
+  return (input) => createHooks(input, options)
+}
+
+async function createHooks(
+  input: PluginInput,
+  options: VirtualProviderPluginOptions,
+): Promise<Hooks> {
+  let loadedConfig: LoadedConfig = {
+    virtualModels: new Map(),
+    strategyProfiles: new Map(),
+  }
+
+  const state: RouterState = options.state ?? createRouterState()
+  const spendPath = options.spendPath ?? getSpendPath()
+  loadSpend(state, spendPath)
+  state.notify = createNotifier(() => loadedConfig.notifications, state.clock, (toast) => void showToast(toast))
+
+  // Per-session fallback cursor: tracks which target index to try next.
+  const sessionFallbackCursor = new Map<string, number>()
+
+  // Per-session count of messages sent since it fell back, for fail_back "after_n_messages".
+  const sessionFallbackMessages = new Map<string, number>()
+
+  // Per-session affinity target (VirtualModelConfig.affinity); while set, the
+  // session's list starts with it and the cursor points at it.
+  const sessionAffinity = new Map<string, SessionAffinity>()
+
+  // Per-session experiment arm (VirtualModelConfig.experiment), kept for the
+  // session's lifetime so it never switches arms mid-conversation.
+  const sessionArm = new Map<string, { experiment: string; arm: string }>()
+
+  // Per-session virtual model: tracks which virtual model ID a session is using.
+  const sessionVirtualModel = new Map<string, string>()
+
+  // Per-session agent of the latest message, selecting the virtual model's agent rule.
+  const sessionAgent = new Map<string, string | undefined>()
+
+  // Per-session retry count against the current target (reset on fallback or success).
+  const sessionRetryCount = new Map<string, number>()
+
+  // Per-session parts of the latest user message, resent by recovery mode "resend".
+  const sessionLastTurn = new Map<string, PromptPart[]>()
+
+  // Per-session times of recent re-prompts, capped by recovery.max_reprompts.
+  const sessionReprompts = new Map<string, number[]>()
+
+  // Per-session target pinned with router_switch; it heads the session's list until unpinned.
+  const sessionPin = new Map<string, string>()
+
+  // Per-session latest routing decision, for router_explain.
+  const sessionRoute = new Map<string, RouteDecision>()
+
+  // Per-session target list of the current turn in the strategy's order, as
+  // chat.message selected it. Errors in the turn walk this list: selecting
+  // again would move rotating strategies on and blame the wrong target.
+  const sessionTurnTargets = new Map<string, TargetModel[]>()
+
+  // Per-session time-to-first-byte deadline (StrategyProfile.timeout). Cleared by
+  // the first streamed part of the assistant message created after arming.
+  const sessionDeadline = new Map<string, { timer: ReturnType<typeof setTimeout>; assistantMessageID?: string }>()
+
+  // Sessions aborted by a missed deadline; their MessageAbortedError is expected.
+  // Also cleared by the user's next message and by the next assistant message
+  // that completes, in case that error never arrives.
+  const sessionTimedOut = new Set<string>()
+
+  // Per-session context size in tokens: the usage of its last completed
+  // assistant message, or just over the window of a target that rejected it.
+  const sessionContextTokens = new Map<string, number>()
+
+  // Per-session capabilities its conversation needs (attachments sent, tool
+  // calls made); they stay needed for as long as the history carries them.
+  const sessionCapabilities = new Map<string, Set<Capability>>()
+
+  // In-flight assistant messages of routed sessions → when their first
+  // text/reasoning/tool part arrived, for the time-to-first-token metric.
+  const assistantMessages = new Map<string, { firstTokenAt?: number }>()
+
+  // The live Config object from the config hook, kept so hot reloads can
+  // register newly added aliases and drop removed ones.
+  let liveSdkConfig: Config | null = null
+  let watchers: Array<() => void> | null = null
+
+  /**
+   * Re-read all router.json layers and atomically swap loadedConfig.
+   * Parse or validation failures keep the previous config. RouterState is
+   * preserved except for targets that no longer appear anywhere; sessions on
+   * a removed virtual model are told so and forgotten, and its alias is taken
+   * out of the live config. Sessions on a changed one restart their fallback
+   * chain from the top.
+   */
+  function reloadConfig(): void {
+    let next: LoadedConfig
+    try {
+      next = loadConfigFromDirectory(input.directory)
+    } catch (err) {
+      warn(`Config reload failed, keeping previous config: ${err instanceof Error ? err.message : err}`)
+      return
+    }
+
+    const errors = validateConfig(next)
+    if (errors.length > 0) {
+      for (const err of errors) warn(`Config error: ${err}`)
+      warn("Config reload rejected, keeping previous config")
+      return
+    }
+
+    const diff = diffLoadedConfig(loadedConfig, next)
+    loadedConfig = next
+
+    pruneState(state, diff.removedModelKeys, [...diff.removedVirtualModels, ...diff.changedVirtualModels])
+    setCooldownGroups(state, loadedConfig.cooldownGroups)
+    refreshBudgets(loadedConfig, state)
+
+    for (const [sessionID, virtualModelID] of sessionVirtualModel) {
+      if (diff.removedVirtualModels.includes(virtualModelID)) {
+        sessionVirtualModel.delete(sessionID)
+        sessionAgent.delete(sessionID)
+        sessionFallbackCursor.delete(sessionID)
+        sessionFallbackMessages.delete(sessionID)
+        sessionAffinity.delete(sessionID)
+        sessionArm.delete(sessionID)
+        sessionRetryCount.delete(sessionID)
+        sessionLastTurn.delete(sessionID)
+        sessionReprompts.delete(sessionID)
+        sessionPin.delete(sessionID)
+        sessionRoute.delete(sessionID)
+        sessionTurnTargets.delete(sessionID)
+        warn(`Virtual model ${virtualModelID} was removed; session ${sessionID} will no longer be routed`)
+        void notifySession(
+          sessionID,
+          `[virtual-provider] ${virtualModelID} was removed from router.json. ` +
+          `Switch this session to another model to keep working.`,
+        )
+      } else if (diff.changedVirtualModels.includes(virtualModelID)) {
+        sessionTurnTargets.delete(sessionID)
+        sessionFallbackCursor.delete(sessionID)
+        sessionFallbackMessages.delete(sessionID)
+        sessionAffinity.delete(sessionID)
+        sessionRetryCount.delete(sessionID)
+      }
+    }
+
+    if (liveSdkConfig) {
+      const catalog = loadProviderCatalog(liveSdkConfig)
+      unregisterVirtualModels(liveSdkConfig, diff.removedVirtualModels)
+      registerVirtualModels(liveSdkConfig, loadedConfig, catalog)
+      setCatalogPrices(state, loadedConfig, catalog)
+      setContextLimits(state, loadedConfig, catalog)
+      setCatalogCapabilities(state, loadedConfig, catalog)
+    }
+
+    console.log(
+      `[virtual-provider] Reloaded ${loadedConfig.virtualModels.size} virtual model(s), ` +
+      `${loadedConfig.strategyProfiles.size} strategy profile(s)`,
+    )
+  }
+
+  /**
+   * The session's virtual model as its experiment arm and current agent see
+   * it (see router/experiment.ts and router/agents.ts)
+   */
+  function modelConfigForSession(sessionID: string): VirtualModelConfig | undefined {
+    const virtualModelID = sessionVirtualModel.get(sessionID)
+    const config = virtualModelID ? loadedConfig.virtualModels.get(virtualModelID) : undefined
+    if (!config) return undefined
+    return applyAgentRule(applyExperimentArm(config, armOf(sessionID, config)), sessionAgent.get(sessionID))
+  }
+
+  /** The arm the session was assigned in the model's experiment, while it runs */
+  function armOf(sessionID: string, config: VirtualModelConfig): ExperimentArm | undefined {
+    const experiment = config.experiment
+    const assigned = sessionArm.get(sessionID)
+    if (!experiment || assigned?.experiment !== experiment.name) return undefined
+    if (!isExperimentActive(experiment, state.clock.now())) return undefined
+    return experiment.arms.find((arm) => arm.name === assigned.arm)
+  }
+
+  /**
+   * The session's arm for its next turn, assigning one by hash if the model's
+   * experiment is running and the session has none in it yet. Joining or
+   * leaving an arm changes the target list, so the session's chain restarts.
+   */
+  function enterExperiment(sessionID: string, virtualModelID: string, config: VirtualModelConfig): ExperimentArm | undefined {
+    const current = armOf(sessionID, config)
+    if (current) return current
+
+    const experiment = config.experiment
+    const active = experiment && isExperimentActive(experiment, state.clock.now()) ? experiment : undefined
+    if (!active && !sessionArm.has(sessionID)) return undefined
+
+    sessionArm.delete(sessionID)
+    sessionFallbackCursor.delete(sessionID)
+    sessionAffinity.delete(sessionID)
+    sessionRetryCount.delete(sessionID)
+    if (!active) return undefined
+
+    const arm = assignArm(active, sessionID)
+    sessionArm.set(sessionID, { experiment: active.name, arm: arm.name })
+    recordArmSession(virtualModelID, active.name, arm.name, state)
+    log(`experiment: session ${sessionID} assigned to ${active.name}/${arm.name} of ${virtualModelID}`)
+    return arm
+  }
+
+  /** Effective config of the virtual model the session is routed through */
+  function resolveForSession(sessionID: string): ResolvedModelConfig | undefined {
+    const config = modelConfigForSession(sessionID)
+    return config ? mergeWithProfile(config, resolveProfile(config, loadedConfig.strategyProfiles)) : undefined
+  }
+
+  /** Whether a target can serve the session's conversation */
+  function isCapable(sessionID: string, target: TargetModel): boolean {
+    return missingCapabilities(target, sessionCapabilities.get(sessionID) ?? [], state).length === 0
+  }
+
+  /** Record capabilities the session's conversation needs from now on */
+  function requireCapabilities(sessionID: string, capabilities: Iterable<Capability>): void {
+    const required = sessionCapabilities.get(sessionID) ?? new Set<Capability>()
+    for (const capability of capabilities) required.add(capability)
+    if (required.size > 0) sessionCapabilities.set(sessionID, required)
+  }
+
+  /**
+   * The session's targets with its affinity target first. An assignment whose
+   * target left the list (a schedule window or agent rule took it out) is
+   * dropped and the session starts over from the strategy's order.
+   */
+  function withAffinity(sessionID: string, config: VirtualModelConfig, targets: TargetModel[]): TargetModel[] {
+    const affinity = sessionAffinity.get(sessionID)
+    if (!config.affinity || !affinity) return targets
+
+    const pinned = pinTarget(targets, affinity.modelKey)
+    if (pinned) return pinned
+    releaseAffinity(sessionID, "target no longer selectable")
+    return targets
+  }
+
+  /**
+   * The session's targets with its router_switch pin first; unchanged while
+   * the pinned target is not among them (an agent rule or schedule window
+   * left it out).
+   */
+  function withPin(sessionID: string, targets: TargetModel[]): TargetModel[] {
+    const pinned = sessionPin.get(sessionID)
+    return (pinned && pinTarget(targets, pinned)) || targets
+  }
+
+  /** Pin the session to a target, or unpin it; either way its chain restarts */
+  function pinSession(sessionID: string, modelKey: string | undefined): void {
+    if (modelKey) sessionPin.set(sessionID, modelKey)
+    else sessionPin.delete(sessionID)
+    sessionFallbackCursor.delete(sessionID)
+    sessionRetryCount.delete(sessionID)
+    log(`router_switch: session ${sessionID} ${modelKey ? `pinned to ${modelKey}` : "unpinned"}`)
+  }
+
+  /** What router_explain reports about a session */
+  function describeSession(sessionID: string): SessionRouting | undefined {
+    const virtualModelID = sessionVirtualModel.get(sessionID)
+    const model = virtualModelID ? loadedConfig.virtualModels.get(virtualModelID) : undefined
+    const config = modelConfigForSession(sessionID)
+    if (!virtualModelID || !model || !config) return undefined
+    const agent = sessionAgent.get(sessionID)
+    const assigned = sessionArm.get(sessionID)
+    return {
+      virtualModel: virtualModelID,
+      agent,
+      agentRule: agent !== undefined && model.agents?.[agent] ? agent : model.agents?.["*"] ? "*" : undefined,
+      experiment: assigned && armOf(sessionID, model) ? { name: assigned.experiment, arm: assigned.arm } : undefined,
+      strategy: config.strategy ?? "sequential",
+      strategyProfile: config.strategy_profile,
+      targets: [...new Set(activeTargets(config, state.clock.now()).map(targetModelKey))],
+      route: sessionRoute.get(sessionID),
+      fallbackCursor: sessionFallbackCursor.get(sessionID) ?? 0,
+      retries: sessionRetryCount.get(sessionID) ?? 0,
+      affinity: sessionAffinity.get(sessionID),
+      pinned: sessionPin.get(sessionID),
+    }
+  }
+
+  /** Remember where the session's turn went and why */
+  function noteRoute(sessionID: string, target: string, reason: string, skipped: RouteDecision["skipped"] = []): void {
+    sessionRoute.set(sessionID, { target, at: state.clock.now(), reason, skipped })
+  }
+
+  function releaseAffinity(sessionID: string, reason: string): void {
+    log(`affinity: session ${sessionID} released from ${sessionAffinity.get(sessionID)?.modelKey} (${reason})`)
+    sessionAffinity.delete(sessionID)
+    sessionFallbackCursor.delete(sessionID)
+  }
+
+  /**
+   * Move the session's fallback cursor to targets[index]. With affinity the
+   * session is pinned to that target instead, which puts it at the front of
+   * the session's list from now on.
+   */
+  function settleSession(sessionID: string, config: VirtualModelConfig, targets: TargetModel[], index: number): void {
+    if (!config.affinity) {
+      if (sessionFallbackCursor.get(sessionID) !== index) sessionFallbackMessages.delete(sessionID)
+      sessionFallbackCursor.set(sessionID, index)
+      return
+    }
+    const modelKey = targetModelKey(targets[index])
+    if (sessionAffinity.get(sessionID)?.modelKey !== modelKey) {
+      sessionAffinity.set(sessionID, { modelKey, assignedAt: state.clock.now() })
+    }
+    sessionFallbackCursor.set(sessionID, 0)
+  }
+
+  /**
+   * Where a turn's scan of the targets starts: at the session's cursor, or
+   * back at the top when its profile's fail_back policy says earlier targets
+   * deserve another try. Targets still in cooldown are skipped by the scan
+   * itself, so "after_cooldown" simply always starts at the top.
+   */
+  function failBackStart(sessionID: string, cursor: number, settings: ResolvedModelConfig): number {
+    if (cursor === 0) return 0
+    if (settings.fail_back === "after_cooldown") return 0
+    if (settings.fail_back !== "after_n_messages") return cursor
+
+    const messages = (sessionFallbackMessages.get(sessionID) ?? 0) + 1
+    if (messages <= settings.fail_back_messages) {
+      sessionFallbackMessages.set(sessionID, messages)
+      return cursor
+    }
+    sessionFallbackMessages.delete(sessionID)
+    return 0
+  }
+
+  /**
+   * Start the first-byte deadline for the session's next turn, if its virtual
+   * model's profile sets a timeout. On expiry the turn is aborted and handled
+   * like a session.error named TimeoutError.
+   */
+  function armDeadline(sessionID: string, modelKey: string): void {
+    clearDeadline(sessionID)
+    const timeout = resolveForSession(sessionID)?.timeout
+    if (!timeout) return
+
+    const timeoutMs = parseDuration(timeout)
+    const timer = setTimeout(() => void onDeadlineMissed(sessionID, timeoutMs, modelKey), timeoutMs)
+    // A pending deadline alone should not keep the process alive
+    timer.unref?.()
+    sessionDeadline.set(sessionID, { timer })
+  }
+
+  function clearDeadline(sessionID: string): void {
+    const deadline = sessionDeadline.get(sessionID)
+    if (!deadline) return
+    clearTimeout(deadline.timer)
+    sessionDeadline.delete(sessionID)
+  }
+
+  async function onDeadlineMissed(sessionID: string, timeoutMs: number, modelKey: string): Promise<void> {
+    sessionDeadline.delete(sessionID)
+    sessionTimedOut.add(sessionID)
+    log(`event: no first byte from ${modelKey} within ${timeoutMs}ms for session ${sessionID}, aborting`)
+    try {
+      await input.client.session.abort({ query: { directory: input.directory }, path: { id: sessionID } })
+    } catch (err) {
+      log(`event: failed to abort session ${sessionID}: ${err}`)
+    }
+    const timeoutError = new FirstByteTimeoutError(timeoutMs, modelKey)
+    await handleSessionError(sessionID, { name: timeoutError.name, data: { message: timeoutError.message, isRetryable: true } })
+  }
+
+  /**
+   * Resume the session on the given target (its cursor already points there)
+   * as the profile's recovery mode says. Once the session has used up its
+   * re-prompts for the window, or with mode "switch", the user is told where
+   * their next message goes instead.
+   */
+  async function repromptSession(sessionID: string, target: { providerID: string; modelID: string }): Promise<void> {
+    const modelKey = `${target.providerID}/${target.modelID}`
+    const resolved = resolveForSession(sessionID)
+    const recovery = resolved?.recovery ?? DEFAULT_RECOVERY
+    const parts = repromptParts(recovery, sessionLastTurn.get(sessionID))
+    if (!parts) {
+      await notifySession(sessionID, `[virtual-provider] The last turn failed; your next message will go to ${modelKey}`)
+      return
+    }
+
+    let sent = sessionReprompts.get(sessionID)
+    if (!sent) {
+      sent = []
+      sessionReprompts.set(sessionID, sent)
+    }
+    if (!takeReprompt(sent, recovery, state.clock.now())) {
+      log(`event: session ${sessionID} reached ${recovery.max_reprompts} re-prompts within ${recovery.window}, not re-prompting`)
+      await notifySession(
+        sessionID,
+        `[virtual-provider] Stopped retrying after ${recovery.max_reprompts} attempts within ${recovery.window}; ` +
+        `your next message will go to ${modelKey}`,
+      )
+      return
+    }
+
+    if (resolved) noteDispatch(modelKey, state, resolved)
+    armDeadline(sessionID, modelKey)
+    try {
+      await input.client.session.prompt({
+        query: { directory: input.directory },
+        path: { id: sessionID },
+        body: {
+          model: target,
+          agent: sessionAgent.get(sessionID),
+          parts,
+        } as Parameters<typeof input.client.session.prompt>[0]["body"],
+      })
+    } catch (err) {
+      log(`event: failed to re-prompt session ${sessionID}: ${err}`)
+    }
+  }
+
+  /**
+   * Retry or fall back after a failed turn (a session.error, or a missed
+   * first-byte deadline), as the profile's fallback_on classifies the error:
+   * "retry" re-prompts the same target first, "fallback" moves on right
+   * away, "cooldown" only benches the target, and "surface" (or no match)
+   * leaves the error with the user. A context-length error is not the
+   * target's fault: it is neither retried nor benched, and the session
+   * escalates to the next target whose window is larger.
+   */
+  async function handleSessionError(sessionID: string, error: SessionError): Promise<void> {
+    const virtualModelID = sessionVirtualModel.get(sessionID)
+    if (!virtualModelID) return
+
+    const config = modelConfigForSession(sessionID)
+    if (!config) return
+
+    const resolved = mergeWithProfile(config, resolveProfile(config, loadedConfig.strategyProfiles))
+    const contextOverflow = isContextLengthError(error)
+    const action = contextOverflow ? undefined : errorAction(describeError(error), resolved.fallback_on)
+    if (!contextOverflow && (!action || action === "surface")) return
+    const assigned = sessionArm.get(sessionID)
+    if (assigned) recordArmError(virtualModelID, assigned.experiment, assigned.arm, state)
+
+    let selected = sessionTurnTargets.get(sessionID)
+    if (!selected) {
+      const { selectTargets } = await import("./router/strategies.js")
+      selected = selectTargets(virtualModelID, config, state)
+    }
+    const targets = withPin(sessionID, withAffinity(sessionID, config, selected))
+    const currentCursor = sessionFallbackCursor.get(sessionID) ?? 0
+    const currentTarget = targets[currentCursor]
+
+    if (currentTarget && contextOverflow) {
+      const limit = contextLimit(currentTarget, state)
+      if (limit !== undefined) {
+        sessionContextTokens.set(sessionID, Math.max(sessionContextTokens.get(sessionID) ?? 0, limit + 1))
+      }
+      sessionRetryCount.delete(sessionID)
+      log(`event: ${targetModelKey(currentTarget)} cannot fit the context of session ${sessionID}, escalating to a larger target`)
+    } else if (currentTarget) {
+      const modelID = normalizeModelID(currentTarget.provider, currentTarget.model)
+      const modelKey = `${currentTarget.provider}/${modelID}`
+      recordFailure(modelKey, state)
+      noteFailure(modelKey, state, resolved)
+
+      const retries = sessionRetryCount.get(sessionID) ?? 0
+      if (action === "retry" && retries < resolved.max_retries) {
+        sessionRetryCount.set(sessionID, retries + 1)
+        const delay = computeBackoffDelay(resolved.backoff, retries)
+        log(`event: error on ${modelKey} for session ${sessionID}, retry ${retries + 1}/${resolved.max_retries} in ${delay}ms`)
+        noteRoute(sessionID, modelKey, `retry ${retries + 1}/${resolved.max_retries} after ${describeFailure(error)}`)
+        await state.clock.sleep(delay)
+        await repromptSession(sessionID, { providerID: currentTarget.provider, modelID })
+        return
+      }
+
+      sessionRetryCount.delete(sessionID)
+      if (action !== "cooldown") recordFallback(modelKey, state)
+      const reset = parseRateLimitReset(error.data?.responseHeaders, state.clock.now())
+      if (reset) log(`event: ${modelKey} asked to wait ${reset.ms}ms (${reset.source})`)
+      const reason = action === "retry" ? "retries exhausted" : `fallback_on: ${action}`
+      const benchedMs = tripBreaker(modelKey, cooldownFor(resolved, reset), state, resolved, reason)
+      const scope = benchScope(modelKey, classifyFailure(error.data?.statusCode, error), benchedMs, resolved, state)
+      if (scope) logCooldown(scope, state.cooldowns.get(scope)!)
+
+      // The error stands; the session's next message skips the benched target
+      if (action === "cooldown") {
+        log(`event: error on ${modelKey} for session ${sessionID}, benched without falling back`)
+        return
+      }
+      log(`event: error on ${modelKey} for session ${sessionID}, advancing fallback cursor`)
+    }
+
+    let nextResolved: { providerID: string; modelID: string } | null = null
+    for (let i = currentCursor + 1; i < targets.length; i++) {
+      const t = targets[i]
+      const mID = normalizeModelID(t.provider, t.model)
+      const mKey = `${t.provider}/${mID}`
+      if (isInCooldown(mKey, state, virtualModelID)) continue
+      if (!fitsContext(t, sessionContextTokens.get(sessionID) ?? 0, state)) continue
+      if (!isCapable(sessionID, t)) continue
+      nextResolved = { providerID: t.provider, modelID: mID }
+      settleSession(sessionID, config, targets, i)
+      break
+    }
+
+    if (!nextResolved) {
+      log(`event: all targets exhausted for ${virtualModelID} in session ${sessionID}`)
+      sessionFallbackCursor.delete(sessionID)
+
+      // Waiting or a last resort cannot make the conversation fit; the provider's error stands
+      if (contextOverflow) return
+
+      const capable = targets.filter((t) => isCapable(sessionID, t))
+      const decision = await resolveExhaustion(virtualModelID, config, resolved, capable, state)
+      if (decision.action === "throw") {
+        await notifySession(sessionID, decision.error.message)
+        return
+      }
+      if (decision.action === "give_up") return
+
+      const index = targets.indexOf(decision.target)
+      if (index >= 0) settleSession(sessionID, config, targets, index)
+      nextResolved = {
+        providerID: decision.target.provider,
+        modelID: normalizeModelID(decision.target.provider, decision.target.model),
+      }
+      noteRoute(sessionID, targetModelKey(decision.target), `every target unavailable, on_fail ${resolved.on_fail}`)
+    } else if (currentTarget) {
+      const failure = contextOverflow ? "context too large for it" : describeFailure(error)
+      noteRoute(sessionID, `${nextResolved.providerID}/${nextResolved.modelID}`, `fell back from ${targetModelKey(currentTarget)} (${failure})`)
+    }
+
+    if (assigned) recordArmFallback(virtualModelID, assigned.experiment, assigned.arm, state)
+    log(`event: falling back session ${sessionID}: ${virtualModelID} -> ${nextResolved.providerID}/${nextResolved.modelID}`)
+    if (currentTarget) {
+      state.notify({
+        kind: "fallback",
+        virtualModel: virtualModelID,
+        from: targetModelKey(currentTarget),
+        to: `${nextResolved.providerID}/${nextResolved.modelID}`,
+      })
+    }
+    await repromptSession(sessionID, nextResolved)
+  }
+
+  /** A session error as router_explain shows it: its name and status code */
+  function describeFailure(error: SessionError): string {
+    const status = error.data?.statusCode
+    return `${error.name ?? "error"}${status !== undefined ? ` ${status}` : ""}`
+  }
+
+  /**
+   * Show a notice in the session without triggering a reply. The part is
+   * marked ignored so it never reaches the model's context.
+   */
+  async function notifySession(sessionID: string, text: string): Promise<void> {
+    try {
+      await input.client.session.prompt({
+        query: { directory: input.directory },
+        path: { id: sessionID },
+        body: {
+          noReply: true,
+          parts: [{ type: "text", text, synthetic: true, ignored: true }],
+        },
+      })
+    } catch (err) {
+      log(`event: failed to notify session ${sessionID}: ${err}`)
+    }
+  }
+
+  /** Show a toast in the TUI; headless runs have none, so failures are only logged */
+  async function showToast(toast: Toast): Promise<void> {
+    try {
+      await input.client.tui.showToast({ query: { directory: input.directory }, body: toast })
+    } catch (err) {
+      log(`notify: failed to show toast: ${err}`)
+    }
+  }
+
+  return {
+    config: async (sdkConfig: Config): Promise<void> => {
+      loadedConfig = loadConfigFromDirectory(input.directory)
+
+      const errors = validateConfig(loadedConfig)
+      for (const err of errors) {
+        console.warn(`[virtual-provider] Config error: ${err}`)
+      }
+
+      // Register virtual model aliases under the "virtual" provider in sdkConfig.
+      // The config hook mutates the live Config object OpenCode uses for model validation,
+      // so virtual/work-build etc. are recognised before the first request is made.
+      liveSdkConfig = sdkConfig
+      const catalog = loadProviderCatalog(sdkConfig)
+      registerVirtualModels(sdkConfig, loadedConfig, catalog)
+      setCatalogPrices(state, loadedConfig, catalog)
+      setContextLimits(state, loadedConfig, catalog)
+      setCatalogCapabilities(state, loadedConfig, catalog)
+      setCooldownGroups(state, loadedConfig.cooldownGroups)
+      refreshBudgets(loadedConfig, state)
+
+      // Apply runtimeReplacement — deep-merge into sdkConfig so the live registry
+      // picks up model/agent overrides defined in virtual.json without touching opencode.json.
+      if (loadedConfig.runtimeReplacement) {
+        deepMerge(sdkConfig, loadedConfig.runtimeReplacement as Record<string, unknown>)
+
+        if (DEBUG) {
+          log(`Applied runtimeReplacement: ${JSON.stringify(loadedConfig.runtimeReplacement)}`)
+        }
+      }
+
+      console.log(
+        `[virtual-provider] Loaded ${loadedConfig.virtualModels.size} virtual model(s), ` +
+        `${loadedConfig.strategyProfiles.size} strategy profile(s)`,
+      )
+
+      if (DEBUG) {
+        for (const line of formatConfigSources(loadedConfig)) log(`config: ${line}`)
+      }
+
+      if (!watchers) {
+        watchers = []
+        for (const layer of getConfigLayers(input.directory)) {
+          const stop = watchConfigFile(layer.path, reloadConfig)
+          if (stop) watchers.push(stop)
+        }
+      }
+    },
+
+    /**
+     * auth hook — provides the virtual provider's fetch pipeline.
+     *
+     * Intercepts requests for virtual/* models, resolves the real target from
+     * the request body model field, then forwards to the real provider via
+     * global fetch with the rewritten model. OpenCode's native auth for the real
+     * provider handles credentials — we only rewrite the model and URL.
+     * Retries, backoff and cooldowns live in router/fetch.ts.
+     *
+     * This is minimal — no delegate loaders, no getAuth cross-provider hacks.
+     * Just rewrite the body and call fetch() which goes through OpenCode's
+     * normal provider routing for the real provider.
+     */
+    auth: {
+      provider: "virtual",
+      loader: async (_getAuth, _provider) => ({
+        fetch: async (request: Request | string | URL, init?: RequestInit): Promise<Response> => {
+          if (DEBUG) log(`auth.fetch: called — chat.message rewrite did NOT take effect`)
+          return routeFetch(request, init, { getConfig: () => loadedConfig, state })
+        },
+      }),
+      methods: [],
+    },
+
+    /** router_status, router_explain and router_switch (see tools.ts) */
+    tool: createRouterTools({
+      getConfig: () => loadedConfig,
+      state,
+      describeSession,
+      pinSession,
+    }),
+
+    /**
+     * chat.message hook — rewrites virtual alias to real provider/model.
+     *
+     * This fires before OpenCode sends the request, so setting output.message.model
+     * here causes OpenCode to use the real provider's native auth/fetch pipeline
+     * instead of routing through the virtual auth.loader above.
+     *
+     * When this works (i.e. OpenCode respects the rewrite), auth.loader.fetch
+     * above is never called for this request. auth.loader is only the fallback
+     * for cases where OpenCode doesn't propagate the chat.message model rewrite.
+     *
+     * The requesting agent's rule from the model's `agents` block decides which
+     * targets are candidates, in what order, and under which strategy. With
+     * `affinity`, a session keeps the target it was last routed to. While the
+     * model's `experiment` runs, the session's arm supplies the targets. A
+     * session pinned with router_switch goes to its pin whenever it can.
+     */
+    "chat.message": async (hookInput, output): Promise<void> => {
+      const incomingModel = hookInput.model
+
+      const outputModel = output.message.model
+
+      // In some run paths hookInput.model is undefined for the first message.
+      // output.message.model still carries the selected model, so use it as fallback.
+      const rawModelID = incomingModel?.modelID ?? outputModel?.modelID ?? ""
+      const providerID = incomingModel?.providerID ?? outputModel?.providerID ?? ""
+
+      let virtualModelID: string | null = null
+      if (providerID === "virtual") {
+        virtualModelID = `virtual/${rawModelID}`
+      } else if (rawModelID.startsWith("virtual/")) {
+        virtualModelID = rawModelID
+      }
+
+      if (!virtualModelID || !loadedConfig.virtualModels.has(virtualModelID)) {
+        return
+      }
+
+      // A different agent rule means a different target list; restart its chain
+      const modelConfig = loadedConfig.virtualModels.get(virtualModelID)!
+      if (
+        sessionVirtualModel.get(hookInput.sessionID) === virtualModelID &&
+        agentRule(modelConfig, sessionAgent.get(hookInput.sessionID)) !== agentRule(modelConfig, hookInput.agent)
+      ) {
+        sessionFallbackCursor.delete(hookInput.sessionID)
+        sessionAffinity.delete(hookInput.sessionID)
+        sessionRetryCount.delete(hookInput.sessionID)
+      }
+
+      sessionVirtualModel.set(hookInput.sessionID, virtualModelID)
+      sessionTimedOut.delete(hookInput.sessionID)
+      sessionAgent.set(hookInput.sessionID, hookInput.agent)
+      const turn = resendableParts(output.parts)
+      if (turn.length > 0) sessionLastTurn.set(hookInput.sessionID, turn)
+      requireCapabilities(hookInput.sessionID, partsCapabilities(output.parts))
+
+      const arm = enterExperiment(hookInput.sessionID, virtualModelID, modelConfig)
+      const config = applyAgentRule(applyExperimentArm(modelConfig, arm), hookInput.agent)
+      const affinity = sessionAffinity.get(hookInput.sessionID)
+      if (affinity && config.affinity && affinityExpired(affinity, config.affinity, state.clock.now())) {
+        releaseAffinity(hookInput.sessionID, "max_duration reached")
+      }
+      const { selectTargets } = await import("./router/strategies.js")
+      const selected = selectTargets(virtualModelID, config, state)
+      sessionTurnTargets.set(hookInput.sessionID, selected)
+      const targets = withPin(hookInput.sessionID, withAffinity(hookInput.sessionID, config, selected))
+      const cursor = sessionFallbackCursor.get(hookInput.sessionID) ?? 0
+      const settings = mergeWithProfile(config, resolveProfile(config, loadedConfig.strategyProfiles))
+      // A pinned session goes back to its pin whenever the pin is available
+      const pinned = targets.length > 0 && sessionPin.get(hookInput.sessionID) === targetModelKey(targets[0])
+      const start = pinned ? 0 : failBackStart(hookInput.sessionID, cursor, settings)
+
+      // Target schedules or an agent rule can leave nothing to select; the
+      // scan below then finds nothing and the profile's on_fail decides
+      if (targets.length === 0) {
+        log(`chat.message: no target of ${virtualModelID} is selectable for session ${hookInput.sessionID}`)
+      } else if (!targets.some((t) => isCapable(hookInput.sessionID, t))) {
+        throw noCapableTargetError(virtualModelID, sessionCapabilities.get(hookInput.sessionID) ?? [])
+      }
+
+      // The conversation so far plus the new message; ignored when no target could hold it
+      let contextTokens = (sessionContextTokens.get(hookInput.sessionID) ?? 0) + estimatePartsTokens(output.parts)
+      if (targets.length > 0 && !targets.some((t) => fitsContext(t, contextTokens, state))) {
+        log(`chat.message: no target of ${virtualModelID} fits ~${contextTokens} tokens, ignoring context limits`)
+        contextTokens = 0
+      }
+
+      let resolved: { providerID: string; modelID: string } | null = null
+      const skipped: RouteDecision["skipped"] = []
+      const skip = (modelKey: string, reason: string) => {
+        log(`chat.message: skipping ${modelKey} (${reason})`)
+        skipped.push({ target: modelKey, reason })
+      }
+      for (let i = start; i < targets.length; i++) {
+        const t = targets[i]
+        const modelID = normalizeModelID(t.provider, t.model)
+        const modelKey = `${t.provider}/${modelID}`
+        if (isInCooldown(modelKey, state, virtualModelID)) {
+          skip(modelKey, "in cooldown")
+          continue
+        }
+        if (!fitsContext(t, contextTokens, state)) {
+          skip(modelKey, `~${contextTokens} tokens exceed its context window`)
+          continue
+        }
+        if (!isCapable(hookInput.sessionID, t)) {
+          const missing = missingCapabilities(t, sessionCapabilities.get(hookInput.sessionID) ?? [], state)
+          skip(modelKey, `no ${describeCapabilities(missing)}`)
+          continue
+        }
+        resolved = { providerID: t.provider, modelID }
+        let reason = `first available target in the ${config.strategy ?? "sequential"} order`
+        if (pinned && i === 0) {
+          reason = "pinned with router_switch"
+        } else if (i < cursor && targets[cursor]) {
+          const failBack = settings.fail_back === "after_cooldown" ? "cooldown over" : `after ${settings.fail_back_messages} messages`
+          logFailBack(virtualModelID, targetModelKey(targets[cursor]), failBack, modelKey)
+          state.notify({ kind: "fail_back", virtualModel: virtualModelID, from: targetModelKey(targets[cursor]), to: modelKey, reason: failBack })
+          reason = `failed back from ${targetModelKey(targets[cursor])} (${failBack})`
+        } else if (config.affinity && sessionAffinity.get(hookInput.sessionID)?.modelKey === modelKey) {
+          reason = "session affinity"
+        } else if (i === cursor && cursor > 0) {
+          reason = `staying on the fallback target (fail_back: ${settings.fail_back})`
+        }
+        noteRoute(hookInput.sessionID, modelKey, reason, skipped)
+        settleSession(hookInput.sessionID, config, targets, i)
+        break
+      }
+
+      if (!resolved) {
+        log(`chat.message: all targets in cooldown for ${virtualModelID}`)
+        const capable = targets.filter((t) => isCapable(hookInput.sessionID, t))
+        const decision = await resolveExhaustion(virtualModelID, config, settings, capable, state)
+        if (decision.action === "throw") throw decision.error
+        if (decision.action === "give_up") return
+
+        const index = targets.indexOf(decision.target)
+        if (index >= 0) settleSession(hookInput.sessionID, config, targets, index)
+        resolved = {
+          providerID: decision.target.provider,
+          modelID: normalizeModelID(decision.target.provider, decision.target.model),
+        }
+        noteRoute(hookInput.sessionID, targetModelKey(decision.target), `every target unavailable, on_fail ${settings.on_fail}`, skipped)
+      }
+
+      if (DEBUG) {
+        log(
+          `chat.message: ${virtualModelID} -> ${resolved.providerID}/${resolved.modelID}` +
+          (hookInput.agent ? ` (agent: ${hookInput.agent})` : ""),
+        )
+      }
+
+      output.message.model = {
+        providerID: resolved.providerID,
+        modelID: resolved.modelID,
+      }
+
+      const modelKey = `${resolved.providerID}/${resolved.modelID}`
+      noteDispatch(modelKey, state, settings)
+      armDeadline(hookInput.sessionID, modelKey)
+    },
+
+    /**
+     * event hook — listens for session.error to retry or fall back.
+     *
+     * A fallback-worthy error first re-prompts the same target up to the
+     * profile's max_retries, waiting per its backoff curve. Once retries are
+     * used up the target's circuit breaker trips and the session moves on to
+     * the next target; with none left, the profile's on_fail policy decides.
+     * A context-length error skips straight to a target with a larger window.
+     * Tool parts mark the session as needing tool-call support from then on.
+     * A completed assistant message resets the retry budget and counts as a
+     * success for the breaker (closing it after a half-open probe); its total
+     * latency and time to first token feed the per-target metrics, and its
+     * token usage is priced, counted against the spend budgets and kept as
+     * the session's context size for the next turn's target choice. Sessions
+     * in an experiment also count their errors, fallbacks, latency and usage
+     * per arm. With a profile timeout, a turn whose assistant message streams
+     * nothing in time is aborted and treated as a "timeout" error.
+     */
+    event: async ({ event }): Promise<void> => {
+      if (event.type === "message.updated") {
+        const info = event.properties.info
+        if (info.role !== "assistant") return
+        const deadline = sessionDeadline.get(info.sessionID)
+        if (deadline && !deadline.assistantMessageID) deadline.assistantMessageID = info.id
+
+        if (!info.time.completed) {
+          if (sessionVirtualModel.has(info.sessionID) && !assistantMessages.has(info.id)) {
+            assistantMessages.set(info.id, {})
+          }
+          return
+        }
+
+        clearDeadline(info.sessionID)
+        const pending = assistantMessages.get(info.id)
+        assistantMessages.delete(info.id)
+        if (info.error) return
+
+        sessionTimedOut.delete(info.sessionID)
+        sessionRetryCount.delete(info.sessionID)
+        const resolved = resolveForSession(info.sessionID)
+        if (!resolved) return
+        sessionContextTokens.set(info.sessionID, contextTokensOf(info.tokens))
+        const modelKey = `${info.providerID}/${info.modelID}`
+        noteSuccess(modelKey, state, resolved)
+        if (pending) {
+          const ttftMs = pending.firstTokenAt !== undefined ? pending.firstTokenAt - info.time.created : undefined
+          recordSuccess(modelKey, info.time.completed - info.time.created, state, ttftMs)
+
+          const virtualModelID = sessionVirtualModel.get(info.sessionID)!
+          const config = loadedConfig.virtualModels.get(virtualModelID)!
+          const usd = spendForMessage(config, modelKey, info.tokens, info.cost, state)
+          recordSpend(virtualModelID, modelKey, usd, loadedConfig, state)
+          if (usd > 0) saveSpend(state, spendPath)
+
+          const assigned = sessionArm.get(info.sessionID)
+          if (assigned) {
+            const latencyMs = info.time.completed - info.time.created
+            recordArmMessage(virtualModelID, assigned.experiment, assigned.arm, { latencyMs, tokens: info.tokens, costUsd: usd }, state)
+          }
+        }
+        return
+      }
+
+      if (event.type === "message.part.updated") {
+        const { part } = event.properties
+        if (part.type !== "text" && part.type !== "reasoning" && part.type !== "tool") return
+        if (part.type === "tool" && sessionVirtualModel.has(part.sessionID)) requireCapabilities(part.sessionID, ["tool_call"])
+
+        const deadline = sessionDeadline.get(part.sessionID)
+        if (deadline && part.messageID === deadline.assistantMessageID) clearDeadline(part.sessionID)
+
+        const pending = assistantMessages.get(part.messageID)
+        if (pending && pending.firstTokenAt === undefined) {
+          pending.firstTokenAt = part.type === "tool" ? state.clock.now() : (part.time?.start ?? state.clock.now())
+        }
+        return
+      }
+
+      if (event.type !== "session.error") return
+
+      const { sessionID, error } = event.properties
+      if (!sessionID || !error) return
+      clearDeadline(sessionID)
+
+      // The abort that follows a missed deadline was ours and is already handled
+      if (error.name === "MessageAbortedError" && sessionTimedOut.delete(sessionID)) return
+
+      await handleSessionError(sessionID, error)
+    },
+  }
+}
+
+/**
+ * Register virtual model aliases under the "virtual" provider of the live config.
+ * Metadata (limits, capability flags) is inherited from the targets' catalog
+ * entries; existing entries are overwritten so reloads pick up changed definitions.
+ */
+function registerVirtualModels(sdkConfig: Config, loadedConfig: LoadedConfig, catalog: ProviderCatalogEntry[]): void {
+  if (!sdkConfig.provider) sdkConfig.provider = {}
+  if (!sdkConfig.provider["virtual"]) sdkConfig.provider["virtual"] = {}
+  if (!sdkConfig.provider["virtual"].models) sdkConfig.provider["virtual"].models = {}
+
+  const models = buildVirtualProviderModels(loadedConfig, catalog)
+  for (const [aliasName, model] of Object.entries(models)) {
+    sdkConfig.provider["virtual"].models![aliasName] = model as NonNullable<
+      NonNullable<Config["provider"]>[string]["models"]
+    >[string]
+
+    if (DEBUG) {
+      const limit = model.limit as { context?: number; output?: number } | undefined
+      log(
+        `Registered virtual/${aliasName} (context ${limit?.context ?? "?"}, output ${limit?.output ?? "?"}, ` +
+        `tool_call ${model.tool_call}, attachment ${model.attachment}, reasoning ${model.reasoning})`,
+      )
+    }
+  }
+}
+
+/** Remove aliases of virtual models that are gone from the live config, so OpenCode stops offering them */
+function unregisterVirtualModels(sdkConfig: Config, virtualModelIDs: string[]): void {
+  const models = sdkConfig.provider?.["virtual"]?.models
+  if (!models) return
+  for (const virtualModelID of virtualModelIDs) {
+    delete models[normalizeModelID("virtual", virtualModelID)]
+    log(`Unregistered ${virtualModelID}`)
+  }
+}
+
+/** Strip provider prefix from model ID if present (e.g. "anthropic/claude-3" -> "claude-3") */
+function normalizeModelID(providerID: string, modelID: string): string {
+  const prefix = `${providerID}/`
+  return modelID.startsWith(prefix) ? modelID.slice(prefix.length) : modelID
+}
+
+/** The parts of a session.error payload the router looks at */
+interface SessionError {
+  name?: string
+  data?: { statusCode?: number; isRetryable?: boolean; message?: string; responseHeaders?: Record<string, string> }
+}
@@ -0,0 +1,36 @@
+/**
+ * Sticky per-session target affinity (VirtualModelConfig.affinity).
+ *
+ * round_robin, random and weighted reorder the targets on every call, so
+ * consecutive turns of one session would land on different providers and miss
+ * their prompt caches. With affinity, a session keeps the target it was last
+ * routed to at the front of its list until that target fails, cools down or
+ * the assignment outlives max_duration. Load balancing then happens across
+ * sessions instead of across turns.
+ */
+
+import type { AffinityConfig, TargetModel } from "../config/schema.js"
+import { targetModelKey } from "../config/loader.js"
+import { parseDuration } from "../util/duration.js"
+
+/** The target a session is pinned to, and since when */
+export interface SessionAffinity {
+  modelKey: string
+  assignedAt: number
+}
+
+/** Whether an assignment has outlived the model's max_duration (never, without one) */
+export function affinityExpired(affinity: SessionAffinity, config: AffinityConfig, now: number): boolean {
+  return config.max_duration !== undefined && now - affinity.assignedAt >= parseDuration(config.max_duration)
+}
+
+/**
+ * The targets with the pinned one moved to the front, the others keeping
+ * their order; undefined if the pinned target is not among them (e.g. after
+ * a schedule window or agent rule took it out).
+ */
+export function pinTarget(targets: TargetModel[], modelKey: string): TargetModel[] | undefined {
+  const index = targets.findIndex((t) => targetModelKey(t) === modelKey)
+  if (index === -1) return undefined
+  return [targets[index], ...targets.slice(0, index), ...targets.slice(index + 1)]
+}
@@ -0,0 +1,57 @@
+/**
+ * Per-agent routing rules (VirtualModelConfig.agents).
+ *
+ * One alias can serve every agent: a rule for the requesting agent (or the
+ * "*" rule for agents without their own) narrows and reorders the model's
+ * targets and may swap its strategy or strategy profile. The result is an
+ * ordinary VirtualModelConfig, so the rest of the router is unaware of agents.
+ */
+
+import type { AgentRule, TargetModel, VirtualModelConfig } from "../config/schema.js"
+import { targetModelKey } from "../config/loader.js"
+import { compileKeyPattern } from "../util/pattern.js"
+
+/** The rule that applies to an agent: its own, else the "*" rule */
+export function agentRule(config: VirtualModelConfig, agent: string | undefined): AgentRule | undefined {
+  if (!config.agents) return undefined
+  return (agent !== undefined ? config.agents[agent] : undefined) ?? config.agents["*"]
+}
+
+/**
+ * The virtual model as seen by an agent. Without a matching rule the config
+ * itself is returned; otherwise a copy whose targets (and each schedule
+ * window's targets) are restricted to `only` and ordered by `prefer`
+ * (unmatched targets keep their relative order after the preferred ones),
+ * with the rule's strategy fields applied.
+ */
+export function applyAgentRule(config: VirtualModelConfig, agent: string | undefined): VirtualModelConfig {
+  const rule = agentRule(config, agent)
+  if (!rule) return config
+
+  return {
+    ...config,
+    strategy: rule.strategy ?? config.strategy,
+    strategy_profile: rule.strategy_profile ?? config.strategy_profile,
+    targets: narrowTargets(config.targets, rule),
+    schedules: config.schedules?.map((window) => ({ ...window, targets: narrowTargets(window.targets, rule) })),
+  }
+}
+
+function narrowTargets(targets: TargetModel[], rule: AgentRule): TargetModel[] {
+  if (rule.only) {
+    const only = rule.only.map(compileKeyPattern)
+    targets = targets.filter((t) => only.some((p) => p.test(targetModelKey(t))))
+  }
+  if (rule.prefer) {
+    const prefer = rule.prefer.map(compileKeyPattern)
+    const rank = (target: TargetModel): number => {
+      const index = prefer.findIndex((p) => p.test(targetModelKey(target)))
+      return index === -1 ? prefer.length : index
+    }
+    targets = targets
+      .map((target, index) => ({ target, index, rank: rank(target) }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index)
+      .map((x) => x.target)
+  }
+  return targets
+}
@@ -1,61 +1,137 @@
-import type { StrategyProfile } from "../config/schema.js"
+import type { ErrorAction, ResolvedModelConfig, StrategyProfile, FailureList } from "../config/schema.js"
 import { parseDuration } from "../util/duration.js"
-
-type FallbackOn = number[] | ["any_error"]
+import type { Clock } from "../util/clock.js"
+import { systemClock } from "../util/clock.js"
+import { isTimeoutError } from "./timeout.js"
+import { HedgeLostError } from "./hedge.js"
+import { DEFAULT_ERROR_ACTION, describeError, describeResponse, errorAction, matchesMessages } from "./classify.js"
 
 export interface BackoffResult {
   response: Response | null
   lastStatus?: number
+  /** Headers of the last fallback-worthy response, for Retry-After cooldowns */
+  lastHeaders?: Headers
   lastError?: unknown
+  /** Number of attempts made against the target (1 + retries) */
+  attempts: number
+  /**
+   * fallback_on's action for the last failure. With "cooldown" the failed
+   * response (or lastError) is to be passed on after benching the target.
+   */
+  action?: ErrorAction
+}
+
+/** A failure as matched against fallback_on-style lists */
+export type FailureClass = number | "timeout" | "error"
+
+export function classifyFailure(status: number | undefined, error: unknown): FailureClass {
+  if (status !== undefined) return status
+  return isTimeoutError(error) ? "timeout" : "error"
+}
+
+/** Whether a failure is listed; a missing list matches every failure */
+export function failureMatches(list: FailureList | undefined, failure: FailureClass): boolean {
+  if (!list) return true
+  const entries = list as Array<number | string>
+  return entries.includes("any_error") || entries.includes(failure)
+}
+
+/**
+ * What to do about a thrown error: what fallback_on says, except that an
+ * abort requested by the caller or a lost hedge race is always passed on, and
+ * unlisted errors other than timeouts (network failures) are retried.
+ */
+function thrownErrorAction(
+  error: unknown,
+  config: Pick<ResolvedModelConfig, "fallback_on">,
+  signal?: AbortSignal,
+): ErrorAction {
+  if (signal?.aborted || error instanceof HedgeLostError) return "surface"
+  if (error instanceof Error && error.name === "AbortError") return "surface"
+  return errorAction(describeError(error), config.fallback_on) ?? (isTimeoutError(error) ? "surface" : DEFAULT_ERROR_ACTION)
 }
 
-export function shouldFallbackStatus(status: number, fallbackOn: FallbackOn): boolean {
-  if (fallbackOn.length === 1 && fallbackOn[0] === "any_error") {
-    return status >= 400
+/**
+ * Delay before retry number `attempt` (0-based), capped at backoff.max (default 30s):
+ * - exponential: initial × multiplier^attempt (multiplier defaults to 2)
+ * - linear:      initial × (attempt + 1)
+ * - fixed:       initial
+ * Without a backoff block, exponential from 500ms is used.
+ */
+export function computeBackoffDelay(backoff: StrategyProfile["backoff"], attempt: number): number {
+  const initial = parseDuration(backoff?.initial ?? "500ms")
+  const maxDelay = parseDuration(backoff?.max ?? "30s")
+
+  let delay: number
+  switch (backoff?.type ?? "exponential") {
+    case "fixed":
+      delay = initial
+      break
+    case "linear":
+      delay = initial * (attempt + 1)
+      break
+    case "exponential":
+    default:
+      delay = initial * Math.pow(backoff?.multiplier ?? 2, attempt)
   }
-  return (fallbackOn as number[]).includes(status)
+  return Math.min(delay, maxDelay)
 }
 
+/**
+ * Call fn, retrying the same target up to config.max_retries times while it
+ * fails in a way fallback_on classifies as "retry". Returns the first
+ * acceptable response, or response: null once retries on this target are
+ * exhausted or a failure calls for an immediate "fallback". A "cooldown"
+ * failure comes back as is, with its action set; a "surface" one (and
+ * anything fallback_on does not list) is treated as acceptable. Once `signal`
+ * is aborted no further attempt is made: the abort reason is thrown.
+ */
 export async function executeWithBackoff(
   fn: () => Promise<Response>,
-  profile: StrategyProfile,
-  fallbackOn: FallbackOn
+  config: Pick<ResolvedModelConfig, "max_retries" | "backoff" | "fallback_on">,
+  clock: Clock = systemClock,
+  signal?: AbortSignal,
 ): Promise<BackoffResult> {
-  const maxRetries = profile.max_retries ?? 0
-  let delay = parseDuration(profile.backoff?.initial ?? "500ms")
-  const multiplier = profile.backoff?.multiplier ?? 2
-  const maxDelay = parseDuration(profile.backoff?.max ?? "30s")
+  const maxRetries = config.max_retries ?? 0
   let lastStatus: number | undefined
+  let lastHeaders: Headers | undefined
   let lastError: unknown
 
+  const readBody = matchesMessages(config.fallback_on)
+
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let action: ErrorAction
     try {
       const response = await fn()
+      const failure = await describeResponse(response, readBody)
+      action = (failure && errorAction(failure, config.fallback_on)) ?? "surface"
 
-      if (shouldFallbackStatus(response.status, fallbackOn)) {
-        lastStatus = response.status
-        if (attempt < maxRetries) {
-          await sleep(delay)
-          delay = Math.min(delay * multiplier, maxDelay)
-          continue
-        }
-        return { response: null, lastStatus }  // Exhausted retries on this target
+      if (action === "surface") {
+        return { response, attempts: attempt + 1 }
+      }
+      if (action === "cooldown") {
+        return { response, lastStatus: response.status, lastHeaders: response.headers, attempts: attempt + 1, action }
       }
 
-      return { response }
+      lastStatus = response.status
+      lastHeaders = response.headers
+      lastError = undefined
+      // Release the connection; this response is discarded
+      await response.body?.cancel().catch(() => {})
     } catch (error) {
+      action = thrownErrorAction(error, config, signal)
+      if (action === "surface") throw error
       lastError = error
-      if (attempt < maxRetries) {
-        await sleep(delay)
-        delay = Math.min(delay * multiplier, maxDelay)
-        continue
-      }
-      return { response: null, lastStatus, lastError }
+    }
+
+    if (action !== "retry") {
+      return { response: null, lastStatus, lastHeaders, lastError, attempts: attempt + 1, action }
+    }
+    if (attempt < maxRetries) {
+      await clock.sleep(computeBackoffDelay(config.backoff, attempt))
+      if (signal?.aborted) throw signal.reason
     }
   }
-  return { response: null, lastStatus, lastError }
-}
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+  return { response: null, lastStatus, lastHeaders, lastError, attempts: maxRetries + 1, action: "retry" }
 }
@@ -0,0 +1,145 @@
+/**
+ * Per-target circuit breaker (closed → open → half-open → closed).
+ *
+ * The open period is stored as the target's own entry in RouterState.cooldowns,
+ * so every isInCooldown check honours it. A breaker trips when the target's
+ * retries are used up (tripBreaker) or when its failure rate over the sliding
+ * window reaches the threshold (noteFailure). Repeated trips escalate the open
+ * duration; once it elapses, the next request sent is the half-open probe and
+ * the target stays unavailable to everything else until that probe settles.
+ */
+
+import type { ResolvedModelConfig } from "../config/schema.js"
+import type { CircuitBreakerState, RouterState } from "./state.js"
+import { parseDuration } from "../util/duration.js"
+import { logBreaker } from "../util/logger.js"
+
+type BreakerSettings = Pick<ResolvedModelConfig, "cooldown" | "circuit_breaker">
+
+function getBreaker(modelKey: string, state: RouterState): CircuitBreakerState {
+  let breaker = state.breakers.get(modelKey)
+  if (!breaker) {
+    breaker = { phase: "closed", outcomes: [], trips: 0 }
+    state.breakers.set(modelKey, breaker)
+  }
+  return breaker
+}
+
+/** Whether the target's own cooldown entry (the open period or probe lease) is active */
+function isHeldBack(modelKey: string, state: RouterState): boolean {
+  return (state.cooldowns.get(modelKey) ?? 0) > state.clock.now()
+}
+
+function recordOutcome(breaker: CircuitBreakerState, ok: boolean, now: number, settings: BreakerSettings): void {
+  breaker.outcomes.push({ at: now, ok })
+  const since = now - parseDuration(settings.circuit_breaker.window)
+  while (breaker.outcomes.length > 0 && breaker.outcomes[0].at <= since) breaker.outcomes.shift()
+}
+
+/**
+ * Call when a request is actually sent to a target. If its breaker is open
+ * and the open period has elapsed, this request becomes the half-open probe:
+ * the target is held back from other requests for up to one window while the
+ * probe is in flight.
+ */
+export function noteDispatch(modelKey: string, state: RouterState, settings: BreakerSettings): void {
+  const breaker = state.breakers.get(modelKey)
+  if (!breaker || breaker.phase !== "open" || isHeldBack(modelKey, state)) return
+
+  breaker.phase = "half_open"
+  state.cooldowns.set(modelKey, state.clock.now() + parseDuration(settings.circuit_breaker.window))
+  logBreaker(modelKey, "half_open", "probing")
+}
+
+/** Record a successful request; a successful half-open probe closes the breaker */
+export function noteSuccess(modelKey: string, state: RouterState, settings: BreakerSettings): void {
+  const breaker = getBreaker(modelKey, state)
+  const now = state.clock.now()
+  recordOutcome(breaker, true, now, settings)
+
+  if (breaker.phase !== "closed") {
+    breaker.phase = "closed"
+    breaker.closedAt = now
+    breaker.outcomes = []
+    state.cooldowns.delete(modelKey)
+    logBreaker(modelKey, "closed", "probe succeeded")
+  }
+}
+
+/**
+ * Record a failed request. Trips a closed breaker once the window holds at
+ * least min_requests outcomes and the failure rate reaches failure_rate; a
+ * failed probe re-opens the breaker with the next escalated duration.
+ */
+export function noteFailure(modelKey: string, state: RouterState, settings: BreakerSettings): void {
+  const breaker = getBreaker(modelKey, state)
+  recordOutcome(breaker, false, state.clock.now(), settings)
+
+  if (breaker.phase !== "closed") {
+    if (!isHeldBack(modelKey, state) || breaker.phase === "half_open") {
+      tripBreaker(modelKey, parseDuration(settings.cooldown), state, settings, "probe failed")
+    }
+    return
+  }
+
+  const { failure_rate, min_requests, window } = settings.circuit_breaker
+  const failures = breaker.outcomes.filter((o) => !o.ok).length
+  if (breaker.outcomes.length >= min_requests && failures / breaker.outcomes.length >= failure_rate) {
+    const rate = Math.round((failures / breaker.outcomes.length) * 100)
+    tripBreaker(modelKey, parseDuration(settings.cooldown), state, settings, `${rate}% failures over ${window}`)
+  }
+}
+
+/**
+ * Open the breaker for baseMs × multiplier^trips, capped at max_open (or at
+ * baseMs, if that is longer). Escalation restarts for a target that stayed
+ * closed for max_open. Tripping a breaker that is still open only extends it
+ * to baseMs without escalating. Returns the open duration in milliseconds.
+ */
+export function tripBreaker(
+  modelKey: string,
+  baseMs: number,
+  state: RouterState,
+  settings: BreakerSettings,
+  reason: string,
+): number {
+  const breaker = getBreaker(modelKey, state)
+  const now = state.clock.now()
+
+  if (breaker.phase === "open" && isHeldBack(modelKey, state)) {
+    const until = Math.max(state.cooldowns.get(modelKey)!, now + baseMs)
+    state.cooldowns.set(modelKey, until)
+    return until - now
+  }
+
+  const { multiplier, max_open } = settings.circuit_breaker
+  const maxOpen = parseDuration(max_open)
+  if (breaker.phase === "closed" && breaker.closedAt !== undefined && now - breaker.closedAt >= maxOpen) {
+    breaker.trips = 0
+  }
+
+  const ms = Math.min(baseMs * Math.pow(multiplier, breaker.trips), Math.max(maxOpen, baseMs))
+  breaker.trips++
+  breaker.phase = "open"
+  breaker.outcomes = []
+  state.cooldowns.set(modelKey, now + ms)
+  logBreaker(modelKey, "open", `${reason}; trip ${breaker.trips}, open for ${ms}ms`)
+  state.notify({ kind: "cooldown", key: modelKey, ms, reason })
+  return ms
+}
+
+/**
+ * Close a breaker by hand (router_switch clear_cooldown): the open period or
+ * probe lease ends and escalation starts over. For other cooldown keys
+ * (provider, group, budget) only the cooldown is dropped.
+ */
+export function resetBreaker(key: string, state: RouterState): void {
+  state.cooldowns.delete(key)
+  const breaker = state.breakers.get(key)
+  if (!breaker || breaker.phase === "closed") return
+  breaker.phase = "closed"
+  breaker.trips = 0
+  breaker.outcomes = []
+  breaker.closedAt = state.clock.now()
+  logBreaker(key, "closed", "cleared by hand")
+}
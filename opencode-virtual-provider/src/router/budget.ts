@@ -0,0 +1,225 @@
+/**
+ * Token pricing and spend budgets.
+ *
+ * Spend is accumulated per virtual model and per provider from the token usage
+ * of completed assistant messages. Once a daily or monthly budget is used up,
+ * a "budget:<scope>" cooldown runs until the period resets, so the affected
+ * targets are skipped like any other cooldown (see cooldownExpiry). The
+ * ledgers are saved to a file next to OpenCode's models.dev cache and loaded
+ * at startup, so budgets hold across restarts.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs"
+import { homedir } from "node:os"
+import { dirname, join } from "node:path"
+import type { Budget, TargetCost, TargetModel, VirtualModelConfig } from "../config/schema.js"
+import type { LoadedConfig, ProviderCatalogEntry } from "../config/loader.js"
+import { allTargets, targetModelKey } from "../config/loader.js"
+import { findCatalogModel } from "../config/catalog.js"
+import type { RouterState, SpendLedger } from "./state.js"
+import { log, logBudget } from "../util/logger.js"
+
+/** Token usage as reported on an assistant message */
+export interface TokenUsage {
+  input: number
+  output: number
+  reasoning?: number
+  cache?: { read: number; write: number }
+}
+
+/** A target's token prices: its own cost block, else the catalog's */
+export function targetPrice(target: TargetModel, state: RouterState): TargetCost | undefined {
+  return target.cost ?? state.catalogPrices.get(targetModelKey(target))
+}
+
+/** Remember the catalog prices of every configured target */
+export function setCatalogPrices(state: RouterState, config: LoadedConfig, catalog: ProviderCatalogEntry[]): void {
+  state.catalogPrices.clear()
+  for (const model of config.virtualModels.values()) {
+    for (const target of allTargets(model)) {
+      const cost = findCatalogModel(catalog, target)?.cost
+      if (cost && typeof cost === "object") state.catalogPrices.set(targetModelKey(target), cost as TargetCost)
+    }
+  }
+}
+
+/** USD cost of a message at the given prices (per million tokens); reasoning is billed as output */
+export function messageCost(tokens: TokenUsage, price: TargetCost): number {
+  return (
+    tokens.input * (price.input ?? 0) +
+    (tokens.output + (tokens.reasoning ?? 0)) * (price.output ?? 0) +
+    (tokens.cache?.read ?? 0) * (price.cache_read ?? 0) +
+    (tokens.cache?.write ?? 0) * (price.cache_write ?? 0)
+  ) / 1_000_000
+}
+
+/**
+ * Spend of a completed message routed through modelConfig. Priced from the
+ * matching target (or the catalog); without any price, the cost OpenCode
+ * reported for the message is used.
+ */
+export function spendForMessage(
+  modelConfig: VirtualModelConfig,
+  modelKey: string,
+  tokens: TokenUsage,
+  reportedCost: number,
+  state: RouterState,
+): number {
+  const target = allTargets(modelConfig).find((t) => targetModelKey(t) === modelKey)
+  const price = target ? targetPrice(target, state) : state.catalogPrices.get(modelKey)
+  return price ? messageCost(tokens, price) : reportedCost
+}
+
+/** Add spend to the virtual model's and the provider's ledgers, then re-check their budgets */
+export function recordSpend(
+  virtualModelID: string,
+  modelKey: string,
+  usd: number,
+  config: LoadedConfig,
+  state: RouterState,
+): void {
+  if (!(usd > 0)) return
+  const provider = modelKey.split("/")[0]
+  const scopes: Array<[string, Budget | undefined]> = [
+    [`virtual:${virtualModelID.replace(/^virtual\//, "")}`, config.virtualModels.get(virtualModelID)?.budget],
+    [`provider:${provider}`, config.providerBudgets?.[provider]],
+  ]
+  for (const [scope, budget] of scopes) {
+    const ledger = currentLedger(scope, state)
+    ledger.dayUsd += usd
+    ledger.monthUsd += usd
+    applyBudget(scope, budget, state)
+  }
+}
+
+/** Re-evaluate every budget against the recorded spend, e.g. after a config reload */
+export function refreshBudgets(config: LoadedConfig, state: RouterState): void {
+  for (const key of state.cooldowns.keys()) {
+    if (key.startsWith("budget:")) state.cooldowns.delete(key)
+  }
+  for (const scope of state.spend.keys()) {
+    const [kind, id] = splitScope(scope)
+    const budget = kind === "virtual" ? config.virtualModels.get(`virtual/${id}`)?.budget : config.providerBudgets?.[id]
+    applyBudget(scope, budget, state)
+  }
+}
+
+/**
+ * Location of the saved spend ledgers:
+ * $XDG_CACHE_HOME/opencode/virtual-provider-spend.json (default ~/.cache/opencode/...).
+ */
+export function getSpendPath(
+  env: Record<string, string | undefined> = process.env,
+  home: string = homedir(),
+): string {
+  const cacheHome = env["XDG_CACHE_HOME"] || join(home, ".cache")
+  return join(cacheHome, "opencode", "virtual-provider-spend.json")
+}
+
+/**
+ * Load saved ledgers into state.spend. A missing or unreadable file, or a
+ * malformed entry, is skipped; ledgers of a past day or month roll over the
+ * next time they are used. Run refreshBudgets afterwards to apply them.
+ */
+export function loadSpend(state: RouterState, path: string = getSpendPath()): void {
+  let saved: Record<string, unknown>
+  try {
+    saved = JSON.parse(readFileSync(path, "utf-8")) as Record<string, unknown>
+  } catch (err) {
+    log(`loadSpend: cannot read ${path}: ${err}`)
+    return
+  }
+  for (const [scope, entry] of Object.entries(saved ?? {})) {
+    if (isLedger(entry)) state.spend.set(scope, { ...entry })
+  }
+}
+
+/** Write state.spend to `path`, through a temporary file so a crash cannot leave it half-written */
+export function saveSpend(state: RouterState, path: string = getSpendPath()): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true })
+    const temp = `${path}.${process.pid}.tmp`
+    writeFileSync(temp, JSON.stringify(Object.fromEntries(state.spend), null, 2), "utf-8")
+    renameSync(temp, path)
+  } catch (err) {
+    log(`saveSpend: cannot write ${path}: ${err}`)
+  }
+}
+
+function isLedger(value: unknown): value is SpendLedger {
+  const ledger = value as Partial<SpendLedger> | null
+  return (
+    typeof ledger === "object" && ledger !== null &&
+    typeof ledger.day === "string" && typeof ledger.dayUsd === "number" &&
+    typeof ledger.month === "string" && typeof ledger.monthUsd === "number"
+  )
+}
+
+/** Spend per scope ("virtual:<name>", "provider:<id>") for the current day and month */
+export function getSpendSummary(state: RouterState): Record<string, { today: number; thisMonth: number }> {
+  const summary: Record<string, { today: number; thisMonth: number }> = {}
+  for (const scope of state.spend.keys()) {
+    const ledger = currentLedger(scope, state)
+    summary[scope] = { today: roundUsd(ledger.dayUsd), thisMonth: roundUsd(ledger.monthUsd) }
+  }
+  return summary
+}
+
+function applyBudget(scope: string, budget: Budget | undefined, state: RouterState): void {
+  const key = `budget:${scope}`
+  const ledger = currentLedger(scope, state)
+  const now = new Date(state.clock.now())
+
+  let until = 0
+  if (budget?.daily !== undefined && ledger.dayUsd >= budget.daily) {
+    until = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime()
+  }
+  if (budget?.monthly !== undefined && ledger.monthUsd >= budget.monthly) {
+    until = Math.max(until, new Date(now.getFullYear(), now.getMonth() + 1, 1).getTime())
+  }
+
+  if (!until) {
+    state.cooldowns.delete(key)
+  } else if (state.cooldowns.get(key) !== until) {
+    state.cooldowns.set(key, until)
+    const monthly = budget?.monthly !== undefined && ledger.monthUsd >= budget.monthly
+    logBudget(
+      scope,
+      monthly ? "monthly" : "daily",
+      roundUsd(monthly ? ledger.monthUsd : ledger.dayUsd),
+      (monthly ? budget!.monthly : budget!.daily)!,
+      until,
+    )
+  }
+}
+
+/** The scope's ledger, rolled over if the day or month changed since the last spend */
+function currentLedger(scope: string, state: RouterState): SpendLedger {
+  const now = new Date(state.clock.now())
+  const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`
+  const day = `${month}-${String(now.getDate()).padStart(2, "0")}`
+
+  let ledger = state.spend.get(scope)
+  if (!ledger) {
+    ledger = { day, dayUsd: 0, month, monthUsd: 0 }
+    state.spend.set(scope, ledger)
+  }
+  if (ledger.month !== month) {
+    ledger.month = month
+    ledger.monthUsd = 0
+  }
+  if (ledger.day !== day) {
+    ledger.day = day
+    ledger.dayUsd = 0
+  }
+  return ledger
+}
+
+function splitScope(scope: string): [string, string] {
+  const colon = scope.indexOf(":")
+  return [scope.slice(0, colon), scope.slice(colon + 1)]
+}
+
+function roundUsd(usd: number): number {
+  return Math.round(usd * 10_000) / 10_000
+}
@@ -0,0 +1,127 @@
+/**
+ * Capability-aware target filtering.
+ *
+ * A conversation that carries attachments, tool calls or a reasoning request
+ * cannot be served by a target lacking that capability; sending it there only
+ * produces a provider error (or silently dropped content). Requirements are read
+ * from the outgoing request — the message parts in chat.message, the request
+ * body in the fetch pipeline — and incapable targets are skipped. A target's
+ * own capabilities block wins over its catalog flags; anything unknown counts
+ * as supported.
+ */
+
+import type { TargetCapabilities, TargetModel } from "../config/schema.js"
+import type { LoadedConfig, ProviderCatalogEntry } from "../config/loader.js"
+import { allTargets, targetModelKey } from "../config/loader.js"
+import { findCatalogModel } from "../config/catalog.js"
+import type { RouterState } from "./state.js"
+
+export type Capability = keyof TargetCapabilities
+
+const CAPABILITIES: Capability[] = ["tool_call", "attachment", "reasoning"]
+
+const CAPABILITY_NAMES: Record<Capability, string> = {
+  tool_call: "tool calls",
+  attachment: "attachments",
+  reasoning: "reasoning",
+}
+
+// Content block types that carry an image or document, across the Anthropic,
+// OpenAI chat and OpenAI responses request formats
+const ATTACHMENT_BLOCKS = new Set(["image", "image_url", "input_image", "document", "file", "input_file"])
+
+// Content block types that only appear in a conversation that used tools
+const TOOL_BLOCKS = new Set(["tool_use", "tool_result", "function_call", "function_call_output"])
+
+/** Whether the target supports a capability: its own flag, else the catalog's, else yes */
+export function supportsCapability(target: TargetModel, capability: Capability, state: RouterState): boolean {
+  return target.capabilities?.[capability] ?? state.capabilities.get(targetModelKey(target))?.[capability] ?? true
+}
+
+/** The required capabilities the target lacks */
+export function missingCapabilities(
+  target: TargetModel,
+  required: Iterable<Capability>,
+  state: RouterState,
+): Capability[] {
+  return [...required].filter((capability) => !supportsCapability(target, capability, state))
+}
+
+/** Remember the catalog capability flags of every configured target */
+export function setCatalogCapabilities(state: RouterState, config: LoadedConfig, catalog: ProviderCatalogEntry[]): void {
+  state.capabilities.clear()
+  for (const model of config.virtualModels.values()) {
+    for (const target of allTargets(model)) {
+      const entry = findCatalogModel(catalog, target)
+      if (!entry) continue
+      const flags: TargetCapabilities = {}
+      for (const capability of CAPABILITIES) {
+        if (typeof entry[capability] === "boolean") flags[capability] = entry[capability] as boolean
+      }
+      state.capabilities.set(targetModelKey(target), flags)
+    }
+  }
+}
+
+/**
+ * Capabilities an OpenCode message needs: non-text file parts are sent as
+ * attachments (text files are inlined), and tool parts mean the conversation
+ * history carries tool calls.
+ */
+export function partsCapabilities(parts: ReadonlyArray<{ type: string; mime?: string }>): Set<Capability> {
+  const required = new Set<Capability>()
+  for (const part of parts) {
+    if (part.type === "tool") required.add("tool_call")
+    if (part.type === "file" && part.mime && !part.mime.startsWith("text/") && part.mime !== "application/x-directory") {
+      required.add("attachment")
+    }
+  }
+  return required
+}
+
+/**
+ * Capabilities a provider request body needs: tool definitions or tool
+ * history, image / document content blocks, and a thinking or reasoning
+ * setting.
+ */
+export function requestCapabilities(body: Record<string, unknown>): Set<Capability> {
+  const required = new Set<Capability>()
+  if (Array.isArray(body.tools) && body.tools.length > 0) required.add("tool_call")
+  if (isEnabled(body.thinking) || body.reasoning_effort !== undefined || isEnabled(body.reasoning)) {
+    required.add("reasoning")
+  }
+
+  const messages = Array.isArray(body.messages) ? body.messages : Array.isArray(body.input) ? body.input : []
+  for (const message of messages) {
+    if (message === null || typeof message !== "object") continue
+    const { role, type, content, tool_calls } = message as Record<string, unknown>
+    if (role === "tool" || (Array.isArray(tool_calls) && tool_calls.length > 0)) required.add("tool_call")
+    if (typeof type === "string" && TOOL_BLOCKS.has(type)) required.add("tool_call")
+    if (!Array.isArray(content)) continue
+    for (const block of content) {
+      const blockType = (block as { type?: unknown } | null)?.type
+      if (typeof blockType !== "string") continue
+      if (ATTACHMENT_BLOCKS.has(blockType)) required.add("attachment")
+      if (TOOL_BLOCKS.has(blockType)) required.add("tool_call")
+    }
+  }
+  return required
+}
+
+function isEnabled(setting: unknown): boolean {
+  if (setting === null || setting === undefined || setting === false) return false
+  return (setting as { type?: unknown }).type !== "disabled"
+}
+
+/** "attachments and tool calls" */
+export function describeCapabilities(capabilities: Iterable<Capability>): string {
+  const names = [...capabilities].map((capability) => CAPABILITY_NAMES[capability])
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names.join("")
+}
+
+export function noCapableTargetError(virtualModelID: string, required: Iterable<Capability>): Error {
+  return new Error(
+    `[virtual-provider] No target of ${virtualModelID} supports ${describeCapabilities(required)}; ` +
+    `add a capable target or remove the content that needs it`,
+  )
+}
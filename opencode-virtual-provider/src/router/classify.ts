@@ -0,0 +1,129 @@
+/**
+ * Error classification (fallback_on).
+ *
+ * Both the session.error handler and the fetch pipeline describe a failure
+ * the same way — status, error name, retryable flag, message — and ask
+ * errorAction what to do about it. Entries are checked in order, so a narrow
+ * matcher placed first (say, a content-filter refusal to surface) wins over a
+ * broader entry after it.
+ */
+
+import type { ErrorAction, ErrorMatcher, FallbackOn } from "../config/schema.js"
+import { isTimeoutError } from "./timeout.js"
+
+/** A failed request or turn, as matched against fallback_on */
+export interface FailureInfo {
+  status?: number
+  name?: string
+  isRetryable?: boolean
+  message?: string
+  /** A missed time-to-first-byte deadline (or a provider-side timeout) */
+  timeout?: boolean
+}
+
+/** Action of plain fallback_on entries, and of matchers without one */
+export const DEFAULT_ERROR_ACTION: ErrorAction = "retry"
+
+/**
+ * Checked after the configured entries. Auth failures come without a status
+ * code and are specific to one provider's credentials, so another target may
+ * well succeed.
+ */
+const BUILTIN_MATCHERS: ErrorMatcher[] = [{ name: "ProviderAuthError" }]
+
+/** What to do about a failure: the action of the first entry it matches, or undefined if none does */
+export function errorAction(failure: FailureInfo, fallbackOn: FallbackOn): ErrorAction | undefined {
+  for (const entry of [...fallbackOn, ...BUILTIN_MATCHERS]) {
+    if (typeof entry === "object") {
+      if (matcherMatches(entry, failure)) return entry.action ?? DEFAULT_ERROR_ACTION
+    } else if (entry === "any_error" || (entry === "timeout" ? failure.timeout : entry === failure.status)) {
+      return DEFAULT_ERROR_ACTION
+    }
+  }
+  return undefined
+}
+
+function matcherMatches(matcher: ErrorMatcher, failure: FailureInfo): boolean {
+  if (matcher.status !== undefined && matcher.status !== failure.status) return false
+  if (matcher.name !== undefined && matcher.name !== failure.name) return false
+  if (matcher.is_retryable !== undefined && matcher.is_retryable !== failure.isRetryable) return false
+  if (matcher.message !== undefined && !messagePattern(matcher.message).test(failure.message ?? "")) return false
+  return true
+}
+
+const patterns = new Map<string, RegExp>()
+
+function messagePattern(source: string): RegExp {
+  let pattern = patterns.get(source)
+  if (!pattern) {
+    pattern = new RegExp(source, "i")
+    patterns.set(source, pattern)
+  }
+  return pattern
+}
+
+/** Whether any entry looks at the message, which for a response means reading its body */
+export function matchesMessages(fallbackOn: FallbackOn): boolean {
+  return fallbackOn.some((entry) => typeof entry === "object" && entry.message !== undefined)
+}
+
+/**
+ * A thrown error or a session.error payload ({ name, data: { statusCode,
+ * isRetryable, message } }) as a failure.
+ */
+export function describeError(error: unknown): FailureInfo {
+  const { name, message, data } = (error ?? {}) as {
+    name?: unknown
+    message?: unknown
+    data?: { statusCode?: unknown; isRetryable?: unknown; message?: unknown }
+  }
+  return {
+    status: typeof data?.statusCode === "number" ? data.statusCode : undefined,
+    name: typeof name === "string" ? name : undefined,
+    isRetryable: typeof data?.isRetryable === "boolean" ? data.isRetryable : undefined,
+    message: typeof data?.message === "string" ? data.message : typeof message === "string" ? message : undefined,
+    timeout: isTimeoutError(error),
+  }
+}
+
+/**
+ * A provider response as a failure, described the way OpenCode reports it
+ * (an "APIError", retryable for 408, 409, 429 and 5xx): every 4xx/5xx, and
+ * with `readBody` also a 2xx JSON body carrying an `error`. Bodies are read
+ * on a clone and only with `readBody`; event streams never are. Undefined
+ * for a response that did not fail.
+ */
+export async function describeResponse(response: Response, readBody: boolean): Promise<FailureInfo | undefined> {
+  const { status } = response
+  const failed = status >= 400
+  const json = response.headers.get("content-type")?.includes("application/json") ?? false
+  if (!failed && !(readBody && json)) return undefined
+
+  let message: string | undefined
+  if (readBody) {
+    let text = ""
+    try {
+      text = await response.clone().text()
+    } catch {
+      // An unreadable body leaves only the status to match on
+    }
+    message = bodyErrorMessage(text) ?? (failed ? text : undefined)
+    if (!failed && message === undefined) return undefined
+  }
+  return { status, name: "APIError", isRetryable: status === 408 || status === 409 || status === 429 || status >= 500, message }
+}
+
+/** The `error` of a JSON error body: its message, or the whole value */
+function bodyErrorMessage(text: string): string | undefined {
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return undefined
+  }
+  const error = (body as { error?: unknown } | null)?.error
+  if (error === undefined || error === null) return undefined
+  if (typeof error === "string") return error
+  const message = (error as { message?: unknown }).message
+  return typeof message === "string" ? message : JSON.stringify(error)
+}
@@ -0,0 +1,94 @@
+/**
+ * Context-window awareness.
+ *
+ * Before a target is chosen, the conversation's size is estimated and targets
+ * whose context window cannot hold it are skipped. Limits come from a target's
+ * own context_limit, else the provider catalog's limit.context; targets with
+ * no known limit always qualify. A provider error saying the context was too
+ * long does not count against the target: the request escalates to a target
+ * with a larger window instead.
+ */
+
+import type { TargetModel } from "../config/schema.js"
+import type { LoadedConfig, ProviderCatalogEntry } from "../config/loader.js"
+import { allTargets, targetModelKey } from "../config/loader.js"
+import { findCatalogModel } from "../config/catalog.js"
+import type { RouterState } from "./state.js"
+
+/** Rough characters-per-token ratio used for estimates; errs on the large side for code */
+const CHARS_PER_TOKEN = 4
+
+// OpenAI: context_length_exceeded / "maximum context length"; Anthropic: "prompt is too long";
+// others: "context window", "too many tokens", "exceeds the context"
+const CONTEXT_LENGTH_ERROR =
+  /context[_ ]length[_ ]exceeded|maximum context length|context window|prompt is too long|too many (input )?tokens|exceeds? the (model'?s )?context/i
+
+/** Estimated token count of a piece of text */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/** Estimated token count of a message's parts; only text-bearing parts are counted */
+export function estimatePartsTokens(parts: ReadonlyArray<{ type: string; text?: string; ignored?: boolean }>): number {
+  let tokens = 0
+  for (const part of parts) {
+    if (part.type === "text" && !part.ignored && typeof part.text === "string") tokens += estimateTokens(part.text)
+  }
+  return tokens
+}
+
+/** Tokens a completed assistant message occupied: everything it read plus everything it wrote */
+export function contextTokensOf(tokens: {
+  input: number
+  output: number
+  reasoning?: number
+  cache?: { read: number; write: number }
+}): number {
+  return tokens.input + tokens.output + (tokens.reasoning ?? 0) + (tokens.cache?.read ?? 0) + (tokens.cache?.write ?? 0)
+}
+
+/** A target's context window: its own context_limit, else the catalog's */
+export function contextLimit(target: TargetModel, state: RouterState): number | undefined {
+  return target.context_limit ?? state.contextLimits.get(targetModelKey(target))
+}
+
+/** Whether a conversation of `tokens` fits the target; unknown limits always fit */
+export function fitsContext(target: TargetModel, tokens: number, state: RouterState): boolean {
+  const limit = contextLimit(target, state)
+  return limit === undefined || tokens <= limit
+}
+
+/** Remember the catalog context windows of every configured target */
+export function setContextLimits(state: RouterState, config: LoadedConfig, catalog: ProviderCatalogEntry[]): void {
+  state.contextLimits.clear()
+  for (const model of config.virtualModels.values()) {
+    for (const target of allTargets(model)) {
+      const limit = (findCatalogModel(catalog, target)?.limit as { context?: unknown } | undefined)?.context
+      if (typeof limit === "number" && limit > 0) state.contextLimits.set(targetModelKey(target), limit)
+    }
+  }
+}
+
+/**
+ * Whether an error (thrown, or a session.error payload) says the conversation
+ * exceeded the model's context window.
+ */
+export function isContextLengthError(error: unknown): boolean {
+  if (error === null || typeof error !== "object") return false
+  const { message, data } = error as { message?: unknown; data?: { message?: unknown; responseBody?: unknown } }
+  const texts = [message, data?.message, data?.responseBody]
+  return texts.some((text) => typeof text === "string" && CONTEXT_LENGTH_ERROR.test(text))
+}
+
+/**
+ * Whether a provider response is a context-length rejection. Only 400 and 413
+ * bodies are inspected (on a clone), so successful streams are never read.
+ */
+export async function isContextLengthResponse(response: Response): Promise<boolean> {
+  if (response.status !== 400 && response.status !== 413) return false
+  try {
+    return CONTEXT_LENGTH_ERROR.test(await response.clone().text())
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * on_fail handling — what happens once every target of a virtual model is
+ * exhausted. Shared by the auth.fetch pipeline, chat.message and the
+ * session.error handler so all three apply the same policy.
+ */
+
+import type { ResolvedModelConfig, TargetModel, VirtualModelConfig } from "../config/schema.js"
+import { targetModelKey } from "../config/loader.js"
+import type { RouterState } from "./state.js"
+import { cooldownExpiry } from "./state.js"
+import { parseDuration } from "../util/duration.js"
+import { logExhausted } from "../util/logger.js"
+
+export type ExhaustionDecision =
+  /** Surface an error to the caller / session */
+  | { action: "throw"; error: Error }
+  /** continue_with_next: leave the request as it is */
+  | { action: "give_up" }
+  /** Route to this target (after waiting, or as the last resort) */
+  | { action: "use"; target: TargetModel }
+
+export function exhaustedError(virtualModelID: string, detail?: string): Error {
+  return new Error(
+    `[virtual-provider] All targets exhausted for ${virtualModelID}` + (detail ? `: ${detail}` : ""),
+  )
+}
+
+/**
+ * Apply the effective on_fail policy once targets are exhausted. For
+ * wait_for_cooldown this sleeps (via state.clock) until the earliest cooldown
+ * among `targets` expires, provided that is within max_wait.
+ */
+export async function resolveExhaustion(
+  virtualModelID: string,
+  modelConfig: VirtualModelConfig,
+  resolved: ResolvedModelConfig,
+  targets: TargetModel[],
+  state: RouterState,
+): Promise<ExhaustionDecision> {
+  switch (resolved.on_fail) {
+    case "throw":
+      reportExhausted(virtualModelID, "throw", state)
+      return { action: "throw", error: exhaustedError(virtualModelID) }
+
+    case "wait_for_cooldown": {
+      const now = state.clock.now()
+      let earliest: { target: TargetModel; wait: number } | null = null
+      for (const target of targets) {
+        const key = targetModelKey(target)
+        const wait = (cooldownExpiry(key, state, virtualModelID) ?? now) - now
+        if (!earliest || wait < earliest.wait) earliest = { target, wait }
+      }
+
+      const maxWait = parseDuration(resolved.max_wait)
+      if (!earliest || earliest.wait > maxWait) {
+        reportExhausted(virtualModelID, `wait_for_cooldown: nothing recovers within ${resolved.max_wait}`, state)
+        return {
+          action: "throw",
+          error: exhaustedError(virtualModelID, `no target leaves cooldown within ${resolved.max_wait}`),
+        }
+      }
+
+      reportExhausted(
+        virtualModelID,
+        `wait_for_cooldown: waiting ${earliest.wait}ms for ${targetModelKey(earliest.target)}`,
+        state,
+      )
+      if (earliest.wait > 0) await state.clock.sleep(earliest.wait)
+      return { action: "use", target: earliest.target }
+    }
+
+    case "last_resort": {
+      const target = modelConfig.last_resort ?? modelConfig.targets[modelConfig.targets.length - 1]
+      if (!target) {
+        reportExhausted(virtualModelID, "last_resort: no target to fall back to", state)
+        return { action: "throw", error: exhaustedError(virtualModelID, "no last resort target") }
+      }
+      reportExhausted(virtualModelID, `last_resort: ${targetModelKey(target)}`, state)
+      return { action: "use", target }
+    }
+
+    case "continue_with_next":
+    default:
+      reportExhausted(virtualModelID, "continue_with_next", state)
+      return { action: "give_up" }
+  }
+}
+
+/** Log an exhaustion outcome and pass it on to the user */
+function reportExhausted(virtualModelID: string, outcome: string, state: RouterState): void {
+  logExhausted(virtualModelID, outcome)
+  state.notify({ kind: "exhausted", virtualModel: virtualModelID, outcome })
+}
@@ -0,0 +1,160 @@
+/**
+ * A/B experiments (VirtualModelConfig.experiment).
+ *
+ * While an experiment runs, every new session of the virtual model is
+ * assigned an arm by hashing its ID, so the split follows the arm weights
+ * across sessions rather than messages, and a session keeps its arm for its
+ * whole life. An arm with its own targets routes only to them; an arm without
+ * targets uses the model's own (the control). Each arm's sessions, errors,
+ * fallbacks, latency, token usage and spend are counted in state.experiments,
+ * and getExperimentSummary puts the arms side by side for review.
+ */
+
+import type { ExperimentArm, ExperimentConfig, VirtualModelConfig } from "../config/schema.js"
+import type { LoadedConfig } from "../config/loader.js"
+import type { ArmMetrics, RouterState } from "./state.js"
+import type { TokenUsage } from "./budget.js"
+import { hashToUnit } from "../util/random.js"
+import { isScheduleActive } from "../util/schedule.js"
+
+/** Whether sessions are being assigned: between start and end, both inclusive */
+export function isExperimentActive(experiment: ExperimentConfig, now: number): boolean {
+  return isScheduleActive({ dates: { from: experiment.start, to: experiment.end } }, now)
+}
+
+/**
+ * The arm a session belongs to. The session ID is hashed together with the
+ * experiment name, so the same session lands on the same arm on every call
+ * and every machine, while a renamed experiment reshuffles the sessions.
+ * Arms with weight 0 get no sessions.
+ */
+export function assignArm(experiment: ExperimentConfig, sessionID: string): ExperimentArm {
+  const total = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0)
+  let point = hashToUnit(`${experiment.name}:${sessionID}`) * total
+  for (const arm of experiment.arms) {
+    if (point < arm.weight) return arm
+    point -= arm.weight
+  }
+  // Only reachable through floating-point rounding at the very top of the range
+  return experiment.arms.findLast((arm) => arm.weight > 0) ?? experiment.arms[0]
+}
+
+/**
+ * The virtual model as seen by a session on an arm: a copy routing to the
+ * arm's targets, which replace the model's targets and schedule windows.
+ * Without an arm, or for an arm without targets, the config itself.
+ */
+export function applyExperimentArm(config: VirtualModelConfig, arm: ExperimentArm | undefined): VirtualModelConfig {
+  if (!arm?.targets) return config
+  return { ...config, targets: arm.targets, schedules: undefined }
+}
+
+function experimentKey(virtualModelID: string, experimentName: string): string {
+  return `${virtualModelID}:${experimentName}`
+}
+
+function armMetrics(virtualModelID: string, experimentName: string, armName: string, state: RouterState): ArmMetrics {
+  const key = experimentKey(virtualModelID, experimentName)
+  let arms = state.experiments.get(key)
+  if (!arms) {
+    arms = new Map()
+    state.experiments.set(key, arms)
+  }
+  let m = arms.get(armName)
+  if (!m) {
+    m = {
+      sessions: 0,
+      messages: 0,
+      errors: 0,
+      fallbacks: 0,
+      totalLatencyMs: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0,
+    }
+    arms.set(armName, m)
+  }
+  return m
+}
+
+export function recordArmSession(virtualModelID: string, experimentName: string, armName: string, state: RouterState): void {
+  armMetrics(virtualModelID, experimentName, armName, state).sessions++
+}
+
+export function recordArmMessage(
+  virtualModelID: string,
+  experimentName: string,
+  armName: string,
+  message: { latencyMs: number; tokens: TokenUsage; costUsd: number },
+  state: RouterState,
+): void {
+  const m = armMetrics(virtualModelID, experimentName, armName, state)
+  m.messages++
+  m.totalLatencyMs += message.latencyMs
+  m.inputTokens += message.tokens.input
+  m.outputTokens += message.tokens.output
+  m.reasoningTokens += message.tokens.reasoning ?? 0
+  m.cacheReadTokens += message.tokens.cache?.read ?? 0
+  m.cacheWriteTokens += message.tokens.cache?.write ?? 0
+  m.costUsd += message.costUsd
+}
+
+export function recordArmError(virtualModelID: string, experimentName: string, armName: string, state: RouterState): void {
+  armMetrics(virtualModelID, experimentName, armName, state).errors++
+}
+
+export function recordArmFallback(virtualModelID: string, experimentName: string, armName: string, state: RouterState): void {
+  armMetrics(virtualModelID, experimentName, armName, state).fallbacks++
+}
+
+/**
+ * Each configured experiment's arms side by side, as plain JSON for export:
+ * raw counts plus error rate (errors per completed or failed turn), average
+ * latency and average tokens per message. Arms that have not seen a session
+ * yet are listed with zero counts. Models without an experiment are left out.
+ */
+export function getExperimentSummary(config: LoadedConfig, state: RouterState): Record<string, unknown> {
+  const now = state.clock.now()
+  const summary: Record<string, unknown> = {}
+  for (const [id, model] of config.virtualModels) {
+    const experiment = model.experiment
+    if (!experiment) continue
+    const collected = state.experiments.get(experimentKey(id, experiment.name))
+    const arms: Record<string, unknown> = {}
+    for (const arm of experiment.arms) {
+      const m = collected?.get(arm.name)
+      const messages = m?.messages ?? 0
+      const turns = messages + (m?.errors ?? 0)
+      arms[arm.name] = {
+        weight: arm.weight,
+        sessions: m?.sessions ?? 0,
+        messages,
+        errors: m?.errors ?? 0,
+        errorRate: turns > 0 ? ((m?.errors ?? 0) / turns * 100).toFixed(1) + "%" : "N/A",
+        fallbacks: m?.fallbacks ?? 0,
+        avgLatencyMs: m && messages > 0 ? Math.round(m.totalLatencyMs / messages) : null,
+        avgInputTokens: m && messages > 0 ? Math.round(m.inputTokens / messages) : null,
+        avgOutputTokens: m && messages > 0 ? Math.round(m.outputTokens / messages) : null,
+        tokens: {
+          input: m?.inputTokens ?? 0,
+          output: m?.outputTokens ?? 0,
+          reasoning: m?.reasoningTokens ?? 0,
+          cacheRead: m?.cacheReadTokens ?? 0,
+          cacheWrite: m?.cacheWriteTokens ?? 0,
+        },
+        costUsd: m?.costUsd ?? 0,
+      }
+    }
+    summary[id] = {
+      experiment: experiment.name,
+      active: isExperimentActive(experiment, now),
+      start: experiment.start ?? null,
+      end: experiment.end ?? null,
+      arms,
+    }
+  }
+  return summary
+}
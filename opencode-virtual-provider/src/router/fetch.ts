@@ -0,0 +1,275 @@
+/**
+ * Fetch pipeline for the virtual provider (auth.loader fetch).
+ *
+ * Only reached when OpenCode did not honour the chat.message model rewrite.
+ * The virtual alias named in the request body is resolved and its targets are
+ * tried in order. Targets lacking a capability the request needs (tools,
+ * attachments, reasoning) are never tried, and targets whose context window is
+ * smaller than the estimated request are skipped.
+ *
+ * Each target is retried per the effective strategy profile (max_retries and
+ * backoff), and a profile timeout aborts any attempt whose headers and first
+ * body chunk do not arrive in time. fallback_on decides what a failure means:
+ * retry the target, move on at once, or bench the target while passing its
+ * error on (see classify.ts). Once a target's retries are exhausted its
+ * circuit breaker trips, for as long as its Retry-After / rate-limit headers
+ * ask if it sent any and escalating on repeated trips, and the next target is
+ * tried. A context-length rejection instead escalates to a larger target
+ * without counting as a failure. When no target is left, the profile's on_fail
+ * policy decides.
+ *
+ * With the hedge strategy, a target slow to send its first byte is raced
+ * against the next healthy one (see hedge.ts).
+ */
+
+import type { LoadedConfig } from "../config/loader.js"
+import { targetModelKey } from "../config/loader.js"
+import { resolveProfile, mergeWithProfile } from "../config/strategies.js"
+import type { RouterState } from "./state.js"
+import { isInCooldown, recordFailure, recordFallback, recordSuccess, recordHedgeRace, benchScope } from "./state.js"
+import { noteDispatch, noteFailure, noteSuccess, tripBreaker } from "./breaker.js"
+import { selectTargets } from "./strategies.js"
+import { executeWithBackoff, classifyFailure } from "./backoff.js"
+import type { BackoffResult } from "./backoff.js"
+import { resolveExhaustion, exhaustedError } from "./exhaustion.js"
+import { withFirstByteTimeout } from "./timeout.js"
+import { HedgeLostError, acquireHedge, firstResponse, hedgeDelayMs, releaseHedge } from "./hedge.js"
+import { parseRateLimitReset, cooldownFor } from "./ratelimit.js"
+import { contextLimit, estimateTokens, fitsContext, isContextLengthResponse } from "./context.js"
+import { describeCapabilities, missingCapabilities, noCapableTargetError, requestCapabilities } from "./capabilities.js"
+import { parseDuration } from "../util/duration.js"
+import type { TargetModel } from "../config/schema.js"
+import { log, logCooldown, logFallback, logHedge, logRouted } from "../util/logger.js"
+
+export interface FetchPipelineContext {
+  /** Returns the current config; read per request so hot reloads apply */
+  getConfig: () => LoadedConfig
+  state: RouterState
+  /** Underlying fetch, injectable for tests */
+  fetch?: typeof fetch
+}
+
+export async function routeFetch(
+  request: Request | string | URL,
+  init: RequestInit | undefined,
+  ctx: FetchPipelineContext,
+): Promise<Response> {
+  const doFetch = ctx.fetch ?? fetch
+  const { state } = ctx
+
+  // Parse body to find which virtual model was requested
+  let body: Record<string, unknown> = {}
+  if (init?.body && typeof init.body === "string") {
+    try { body = JSON.parse(init.body) } catch { /* pass through */ }
+  }
+
+  const requestedModel = typeof body.model === "string" ? body.model : undefined
+  if (!requestedModel) {
+    return doFetch(request as Request, init)
+  }
+
+  // Resolve virtual alias to real target
+  const virtualModelID = requestedModel.startsWith("virtual/")
+    ? requestedModel
+    : `virtual/${requestedModel}`
+
+  const config = ctx.getConfig()
+  const modelConfig = config.virtualModels.get(virtualModelID)
+  if (!modelConfig) {
+    return doFetch(request as Request, init)
+  }
+
+  const resolved = mergeWithProfile(modelConfig, resolveProfile(modelConfig, config.strategyProfiles))
+
+  // Targets lacking a capability the request needs are left out entirely
+  // An empty selection (every target benched by its schedule, say) goes
+  // straight to the on_fail policy below.
+  const required = requestCapabilities(body)
+  const selected = selectTargets(virtualModelID, modelConfig, state)
+  const targets = selected.filter((t) => {
+    const missing = missingCapabilities(t, required, state)
+    if (missing.length > 0) log(`auth.fetch: skipping ${targetModelKey(t)} (no ${describeCapabilities(missing)})`)
+    return missing.length === 0
+  })
+  if (selected.length > 0 && targets.length === 0) throw noCapableTargetError(virtualModelID, required)
+
+  const timeoutMs = resolved.timeout ? parseDuration(resolved.timeout) : undefined
+
+  // Estimated request size; raised past a target's window when it rejects the
+  // request as too long. Ignored when no target could hold it.
+  let contextTokens = estimateTokens(typeof init?.body === "string" ? init.body : "")
+  if (!targets.some((t) => fitsContext(t, contextTokens, state))) contextTokens = 0
+
+  // Status of the most recent failed target, for the FALLBACK log line
+  let lastFailure: number | "error" = "error"
+
+  // The most recent context-length rejection, handed back if no larger target is left
+  let overflow: Response | null = null
+
+  /**
+   * Send the request to one target with retries; null once they are used up,
+   * or when the request lost a hedge race (signal aborted with HedgeLostError)
+   */
+  const attempt = async (target: TargetModel, signal = init?.signal): Promise<Response | null> => {
+    const modelKey = targetModelKey(target)
+
+    // Rewrite body with real model, forward via fetch
+    // OpenCode's provider routing will pick up the correct auth for the real provider
+    const rewrittenInit = { ...init, body: JSON.stringify({ ...body, model: modelKey }) }
+    log(`auth.fetch: ${virtualModelID} -> ${modelKey}`)
+
+    noteDispatch(modelKey, state, resolved)
+    const startedAt = state.clock.now()
+    const lostRace = () => signal?.reason instanceof HedgeLostError
+    let result: BackoffResult
+    try {
+      result = await executeWithBackoff(
+        () => withFirstByteTimeout(
+          (signal) => doFetch(request as Request, { ...rewrittenInit, signal }),
+          timeoutMs,
+          signal,
+          modelKey,
+        ),
+        resolved,
+        state.clock,
+        signal ?? undefined,
+      )
+    } catch (err) {
+      if (lostRace()) return null
+      throw err
+    }
+    if (lostRace()) {
+      await result.response?.body?.cancel().catch(() => {})
+      return null
+    }
+
+    // Attempts before the last one failed; they count towards the breaker's failure rate
+    for (let i = 1; i < result.attempts; i++) noteFailure(modelKey, state, resolved)
+
+    if (result.response && await isContextLengthResponse(result.response)) {
+      const limit = contextLimit(target, state)
+      contextTokens = Math.max(contextTokens, (limit ?? 0) + 1)
+      lastFailure = result.response.status
+      overflow = result.response
+      // The target itself is healthy; this settles a half-open probe like any answer
+      noteSuccess(modelKey, state, resolved)
+      log(`auth.fetch: ${modelKey} rejected the request as too long for its context window, escalating`)
+      return null
+    }
+
+    if (result.response && result.action !== "cooldown") {
+      // The response is handed back once its first chunk arrives, so this is
+      // also the time to first token; the rest of the stream is not observed.
+      const latencyMs = state.clock.now() - startedAt
+      recordSuccess(modelKey, latencyMs, state, latencyMs)
+      noteSuccess(modelKey, state, resolved)
+      logRouted(virtualModelID, modelKey, result.response.status, latencyMs)
+      return result.response
+    }
+
+    lastFailure = result.lastStatus ?? "error"
+    recordFailure(modelKey, state)
+    if (result.action !== "cooldown") recordFallback(modelKey, state)
+    noteFailure(modelKey, state, resolved)
+    const reset = parseRateLimitReset(result.lastHeaders, state.clock.now())
+    if (reset) log(`auth.fetch: ${modelKey} asked to wait ${reset.ms}ms (${reset.source})`)
+    const reason = result.action === "retry" ? "retries exhausted" : `fallback_on: ${result.action}`
+    const benchedMs = tripBreaker(modelKey, cooldownFor(resolved, reset), state, resolved, reason)
+    logCooldown(modelKey, state.cooldowns.get(modelKey)!)
+    const scope = benchScope(modelKey, classifyFailure(result.lastStatus, result.lastError), benchedMs, resolved, state)
+    if (scope) logCooldown(scope, state.cooldowns.get(scope)!)
+    log(
+      `auth.fetch: ${modelKey} failed after ${result.attempts} attempt(s)` +
+      (result.lastError ? `: ${result.lastError}` : ""),
+    )
+
+    // fallback_on asked to bench the target but pass this failure on
+    if (result.action === "cooldown") {
+      if (result.response) return result.response
+      throw result.lastError
+    }
+    return null
+  }
+
+  /**
+   * Send the request to `primary`; if it has not answered within the hedge
+   * delay, send it to `backup` as well. The first response wins and the other
+   * request is aborted. Null if neither target answered.
+   */
+  const race = async (primary: TargetModel, backup: TargetModel): Promise<Response | null> => {
+    const primaryKey = targetModelKey(primary)
+    const backupKey = targetModelKey(backup)
+    const startedAt = state.clock.now()
+    const primaryAbort = new AbortController()
+    const primaryAttempt = attempt(primary, linkSignal(primaryAbort.signal))
+
+    const delayMs = hedgeDelayMs(modelConfig)
+    const early = await Promise.race([primaryAttempt, state.clock.sleep(delayMs)])
+    if (early !== undefined) return early
+    if (!acquireHedge(virtualModelID, modelConfig, state)) {
+      log(`auth.fetch: not hedging ${primaryKey}, ${virtualModelID} has too many hedges in flight`)
+      return primaryAttempt
+    }
+
+    log(`auth.fetch: no first byte from ${primaryKey} within ${delayMs}ms, hedging with ${backupKey}`)
+    const backupAbort = new AbortController()
+    const backupAttempt = attempt(backup, linkSignal(backupAbort.signal))
+      .finally(() => releaseHedge(virtualModelID, state))
+
+    const winner = await firstResponse([primaryAttempt, backupAttempt])
+    if (!winner) return null
+
+    const [winnerKey, loserKey, loser, loserAttempt] = winner.index === 0
+      ? [primaryKey, backupKey, backupAbort, backupAttempt]
+      : [backupKey, primaryKey, primaryAbort, primaryAttempt]
+    loser.abort(new HedgeLostError(loserKey))
+    // Both may have answered at once; release the losing stream
+    void loserAttempt.then((response) => response?.body?.cancel(), () => {})
+    recordHedgeRace(winnerKey, loserKey, state)
+    logHedge(virtualModelID, winnerKey, loserKey, state.clock.now() - startedAt)
+    return winner.response
+  }
+
+  /** The caller's signal combined with a race's own */
+  const linkSignal = (signal: AbortSignal): AbortSignal =>
+    init?.signal ? AbortSignal.any([init.signal, signal]) : signal
+
+  /** The next target after index i that could take the request */
+  const nextHealthy = (i: number): TargetModel | undefined => targets.slice(i + 1).find(
+    (t) => !isInCooldown(targetModelKey(t), state, virtualModelID) && fitsContext(t, contextTokens, state),
+  )
+
+  for (let i = 0; i < targets.length; i++) {
+    const modelKey = targetModelKey(targets[i])
+
+    if (isInCooldown(modelKey, state, virtualModelID)) {
+      log(`auth.fetch: skipping ${modelKey} (in cooldown)`)
+      continue
+    }
+    if (!fitsContext(targets[i], contextTokens, state)) {
+      log(`auth.fetch: skipping ${modelKey} (~${contextTokens} tokens exceed its context window)`)
+      continue
+    }
+
+    const backup = modelConfig.strategy === "hedge" ? nextHealthy(i) : undefined
+    const response = backup ? await race(targets[i], backup) : await attempt(targets[i])
+    if (response) return response
+
+    const next = nextHealthy(i)
+    const to = next ? targetModelKey(next) : null
+    logFallback(virtualModelID, modelKey, lastFailure, to)
+    state.notify({ kind: "fallback", virtualModel: virtualModelID, from: modelKey, to })
+  }
+
+  // Waiting or a last resort cannot make the conversation fit; surface the provider's own error
+  if (overflow) return overflow
+
+  // Every target failed or is cooling down: apply the profile's on_fail policy.
+  // There is no request to "continue" with here, so continue_with_next throws too.
+  const decision = await resolveExhaustion(virtualModelID, modelConfig, resolved, targets, state)
+  if (decision.action === "use") {
+    const response = await attempt(decision.target)
+    if (response) return response
+  }
+  throw decision.action === "throw" ? decision.error : exhaustedError(virtualModelID)
+}
@@ -0,0 +1,74 @@
+/**
+ * Hedged requests (strategy "hedge", fetch pipeline only).
+ *
+ * The request goes to the first target as usual. If no first byte has arrived
+ * after hedge.delay, the same request is also sent to the next healthy target
+ * and whichever answers first is streamed back; the other request is aborted.
+ * Hedging doubles the load on the slow path, so hedge.max_in_flight caps how
+ * many hedge requests a virtual model may have open at once.
+ */
+
+import type { VirtualModelConfig } from "../config/schema.js"
+import { parseDuration } from "../util/duration.js"
+import type { RouterState } from "./state.js"
+
+/** How long the first target gets before a hedge is sent, when not configured */
+export const DEFAULT_HEDGE_DELAY = "2s"
+
+/** Open hedge requests per virtual model, when not configured */
+export const DEFAULT_MAX_HEDGES = 2
+
+/** Abort reason for the request that lost a hedge race; it counts as neither success nor failure */
+export class HedgeLostError extends Error {
+  override readonly name = "HedgeLostError"
+
+  constructor(readonly target: string) {
+    super(`[virtual-provider] ${target} lost a hedge race`)
+  }
+}
+
+export function hedgeDelayMs(config: VirtualModelConfig): number {
+  return parseDuration(config.hedge?.delay ?? DEFAULT_HEDGE_DELAY)
+}
+
+/** Reserve a hedge slot for the virtual model; false when max_in_flight are already open */
+export function acquireHedge(virtualModelID: string, config: VirtualModelConfig, state: RouterState): boolean {
+  const open = state.hedgesInFlight.get(virtualModelID) ?? 0
+  if (open >= (config.hedge?.max_in_flight ?? DEFAULT_MAX_HEDGES)) return false
+  state.hedgesInFlight.set(virtualModelID, open + 1)
+  return true
+}
+
+export function releaseHedge(virtualModelID: string, state: RouterState): void {
+  const open = (state.hedgesInFlight.get(virtualModelID) ?? 0) - 1
+  if (open > 0) state.hedgesInFlight.set(virtualModelID, open)
+  else state.hedgesInFlight.delete(virtualModelID)
+}
+
+/**
+ * The first racer to come back with a response, and its index. Racers that
+ * come back empty or throw are waited out; once all have settled without a
+ * response, resolves to null — or rejects with the first error, if any threw.
+ */
+export function firstResponse(
+  racers: Array<Promise<Response | null>>,
+): Promise<{ index: number; response: Response } | null> {
+  return new Promise((resolve, reject) => {
+    let pending = racers.length
+    let error: { reason: unknown } | undefined
+    const settle = () => {
+      if (--pending > 0) return
+      if (error) reject(error.reason)
+      else resolve(null)
+    }
+    racers.forEach((racer, index) => {
+      racer.then(
+        (response) => (response ? resolve({ index, response }) : settle()),
+        (reason) => {
+          error ??= { reason }
+          settle()
+        },
+      )
+    })
+  })
+}
@@ -0,0 +1,126 @@
+/**
+ * TUI notices for routing events (router.json `notifications`).
+ *
+ * The router reports fallbacks, fail-backs, exhausted targets and cooldowns
+ * through RouterState.notify, whichever path (fetch pipeline, chat.message,
+ * session.error) made the decision. createNotifier turns them into toasts at
+ * the configured level, and shows a notice about the same model at most once
+ * per min_interval so a flapping target does not bury the TUI.
+ */
+
+import type { NotificationLevel, NotificationsConfig } from "../config/schema.js"
+import type { Clock } from "../util/clock.js"
+import { parseDuration } from "../util/duration.js"
+
+/** A routing decision the user may want to know about */
+export type RoutingNotice =
+  | { kind: "fallback"; virtualModel: string; from: string; to: string | null }
+  | { kind: "fail_back"; virtualModel: string; from: string; to: string; reason: string }
+  | { kind: "exhausted"; virtualModel: string; outcome: string }
+  | { kind: "cooldown"; key: string; ms: number; reason: string }
+
+export interface Toast {
+  title: string
+  message: string
+  variant: "info" | "success" | "warning" | "error"
+  /** Milliseconds; OpenCode's default when unset */
+  duration?: number
+}
+
+export const DEFAULT_NOTIFICATION_LEVEL: NotificationLevel = "normal"
+
+/** Default quiet period for a repeated notice */
+export const DEFAULT_NOTIFICATION_INTERVAL = "30s"
+
+const LEVELS: NotificationLevel[] = ["off", "errors", "normal", "verbose"]
+
+/** The lowest level at which each kind of notice is shown */
+const NOTICE_LEVEL: Record<RoutingNotice["kind"], NotificationLevel> = {
+  exhausted: "errors",
+  fallback: "normal",
+  fail_back: "normal",
+  cooldown: "verbose",
+}
+
+/**
+ * A notify function for RouterState: filters notices by the current config's
+ * level (read per notice, so hot reloads apply), drops repeats and hands the
+ * rest to `show`.
+ */
+export function createNotifier(
+  getConfig: () => NotificationsConfig | undefined,
+  clock: Clock,
+  show: (toast: Toast) => void,
+): (notice: RoutingNotice) => void {
+  // Notice key → when it was last shown
+  const shown = new Map<string, number>()
+
+  return (notice) => {
+    const config = getConfig()
+    const level = config?.level ?? DEFAULT_NOTIFICATION_LEVEL
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(NOTICE_LEVEL[notice.kind])) return
+
+    const now = clock.now()
+    const interval = parseDuration(config?.min_interval ?? DEFAULT_NOTIFICATION_INTERVAL)
+    for (const [key, at] of shown) {
+      if (now - at >= interval) shown.delete(key)
+    }
+    const key = noticeKey(notice)
+    if (shown.has(key)) return
+    shown.set(key, now)
+
+    const toast = describeNotice(notice)
+    if (config?.duration) toast.duration = parseDuration(config.duration)
+    show(toast)
+  }
+}
+
+/** What makes two notices repeats of each other: the same kind of event for the same model */
+function noticeKey(notice: RoutingNotice): string {
+  switch (notice.kind) {
+    case "fallback": return `fallback:${notice.virtualModel}:${notice.from}`
+    case "fail_back": return `fail_back:${notice.virtualModel}:${notice.to}`
+    case "exhausted": return `exhausted:${notice.virtualModel}`
+    case "cooldown": return `cooldown:${notice.key}`
+  }
+}
+
+export function describeNotice(notice: RoutingNotice): Toast {
+  switch (notice.kind) {
+    case "fallback":
+      return {
+        title: "Fallback",
+        message: notice.to
+          ? `${notice.virtualModel}: ${notice.from} failed, switched to ${notice.to}`
+          : `${notice.virtualModel}: ${notice.from} failed, no targets left`,
+        variant: "warning",
+      }
+    case "fail_back":
+      return {
+        title: "Fail-back",
+        message: `${notice.virtualModel}: back from ${notice.from} to ${notice.to} (${notice.reason})`,
+        variant: "info",
+      }
+    case "exhausted":
+      return {
+        title: "All targets exhausted",
+        message: `${notice.virtualModel}: ${notice.outcome}`,
+        variant: "error",
+      }
+    case "cooldown":
+      return {
+        title: "Cooldown",
+        message: `${notice.key} benched for ${formatWait(notice.ms)} (${notice.reason})`,
+        variant: "warning",
+      }
+  }
+}
+
+/** A wait in the largest unit that keeps it readable: "45s", "5m", "2h" */
+function formatWait(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 120) return `${seconds}s`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 120) return `${minutes}m`
+  return `${Math.round(minutes / 60)}h`
+}
@@ -0,0 +1,114 @@
+/**
+ * Provider-stated rate-limit resets (Retry-After and friends).
+ *
+ * A 429/503 usually says how long to back off. When it does, the failed target
+ * is cooled down for exactly that long — clamped by the profile's min_cooldown
+ * and max_cooldown — instead of the fixed profile cooldown.
+ */
+
+import type { ResolvedModelConfig } from "../config/schema.js"
+import { parseDuration } from "../util/duration.js"
+
+/** Response headers from fetch, or the plain record carried by a session.error */
+export type HeadersLike = Headers | Record<string, string>
+
+export interface RateLimitReset {
+  /** Milliseconds until the provider accepts requests again */
+  ms: number
+  /** Header the value came from, for logging */
+  source: string
+}
+
+// OpenAI: x-ratelimit-reset-{requests,tokens}; OpenRouter & co: x-ratelimit-reset;
+// Anthropic: anthropic-ratelimit-{requests,tokens,input-tokens,output-tokens}-reset
+const RESET_HEADER = /^(x-ratelimit-reset(-[a-z-]+)?|anthropic-ratelimit-[a-z-]+-reset)$/
+
+// Go-style durations as sent by OpenAI, e.g. "6m0s", "1h2m3.5s", "20ms"
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|h|m|s)/g
+
+/**
+ * Read the provider-stated wait from response headers. Retry-After (and
+ * retry-after-ms) wins; otherwise the latest reset among the exhausted limits
+ * (remaining = 0) is used, or the latest reset overall when none report
+ * exhaustion. Returns null when no header is present or parseable.
+ */
+export function parseRateLimitReset(headers: HeadersLike | undefined, now: number): RateLimitReset | null {
+  if (!headers) return null
+  const entries = normalizeHeaders(headers)
+
+  const retryAfterMs = Number(entries.get("retry-after-ms"))
+  if (entries.has("retry-after-ms") && Number.isFinite(retryAfterMs)) {
+    return { ms: Math.max(0, retryAfterMs), source: "retry-after-ms" }
+  }
+
+  const retryAfter = entries.get("retry-after")
+  if (retryAfter !== undefined) {
+    const ms = /^\d+(\.\d+)?$/.test(retryAfter.trim())
+      ? parseFloat(retryAfter) * 1000
+      : Date.parse(retryAfter) - now
+    if (Number.isFinite(ms)) return { ms: Math.max(0, ms), source: "retry-after" }
+  }
+
+  let latest: RateLimitReset | null = null
+  let latestExhausted: RateLimitReset | null = null
+  for (const [name, value] of entries) {
+    if (!RESET_HEADER.test(name)) continue
+    const ms = parseResetValue(value, now)
+    if (ms === null) continue
+
+    const reset = { ms: Math.max(0, ms), source: name }
+    if (!latest || reset.ms > latest.ms) latest = reset
+    if (entries.get(name.replace(/reset/, "remaining")) === "0" && (!latestExhausted || reset.ms > latestExhausted.ms)) {
+      latestExhausted = reset
+    }
+  }
+  return latestExhausted ?? latest
+}
+
+/**
+ * Cooldown (ms) for a failed target: the provider-stated reset clamped to the
+ * profile's [min_cooldown, max_cooldown], or the profile cooldown without one.
+ */
+export function cooldownFor(
+  resolved: Pick<ResolvedModelConfig, "cooldown" | "min_cooldown" | "max_cooldown">,
+  reset: RateLimitReset | null,
+): number {
+  if (!reset) return parseDuration(resolved.cooldown)
+  let ms = reset.ms
+  if (resolved.min_cooldown) ms = Math.max(ms, parseDuration(resolved.min_cooldown))
+  if (resolved.max_cooldown) ms = Math.min(ms, parseDuration(resolved.max_cooldown))
+  return ms
+}
+
+function normalizeHeaders(headers: HeadersLike): Map<string, string> {
+  const entries = new Map<string, string>()
+  const pairs = headers instanceof Headers ? headers.entries() : Object.entries(headers)
+  for (const [name, value] of pairs) {
+    if (typeof value === "string") entries.set(name.toLowerCase(), value.trim())
+  }
+  return entries
+}
+
+/**
+ * A reset header value is one of: seconds until reset, a unix timestamp in
+ * seconds or milliseconds, a Go-style duration, or an RFC 3339 / HTTP date.
+ */
+function parseResetValue(value: string, now: number): number | null {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const n = parseFloat(value)
+    if (n > 1e12) return n - now
+    if (n > 1e9) return n * 1000 - now
+    return n * 1000
+  }
+
+  if (/^(\d+(\.\d+)?(ms|h|m|s))+$/.test(value)) {
+    let ms = 0
+    for (const [, amount, unit] of value.matchAll(DURATION_PART)) {
+      ms += parseDuration(`${amount}${unit}`)
+    }
+    return ms
+  }
+
+  const date = Date.parse(value)
+  return Number.isFinite(date) ? date - now : null
+}
@@ -0,0 +1,64 @@
+/**
+ * Session recovery (StrategyProfile.recovery).
+ *
+ * After a failed turn the session.error handler moves the session to the
+ * retried or fallback target and, depending on the mode, re-prompts it there:
+ * "resend" sends the failed turn's user message again, "continue" sends a
+ * short instruction to pick up where the failed reply stopped, and "switch"
+ * sends nothing, leaving the next message to the user. Re-prompts are capped
+ * per session within a sliding window, so a chain of failing targets cannot
+ * keep prompting itself.
+ */
+
+import type { RecoveryConfig } from "../config/schema.js"
+import { parseDuration } from "../util/duration.js"
+
+/** A user message part as session.prompt accepts it */
+export type PromptPart = { type: string } & Record<string, unknown>
+
+/** Part types session.prompt accepts as input */
+const PROMPT_PART_TYPES = new Set(["text", "file", "agent", "subtask"])
+
+/** Fields OpenCode assigns to a stored part, which a new prompt must not carry */
+const STORED_FIELDS = new Set(["id", "sessionID", "messageID"])
+
+/**
+ * A user message's parts, as they can be sent again. Synthetic text parts are
+ * dropped: OpenCode adds them while expanding file and agent parts, and does
+ * so again when the message is resent.
+ */
+export function resendableParts(parts: ReadonlyArray<{ type: string; synthetic?: boolean }>): PromptPart[] {
+  const resendable: PromptPart[] = []
+  for (const part of parts) {
+    if (!PROMPT_PART_TYPES.has(part.type) || (part.type === "text" && part.synthetic)) continue
+    resendable.push(Object.fromEntries(
+      Object.entries(part).filter(([key]) => !STORED_FIELDS.has(key)),
+    ) as PromptPart)
+  }
+  return resendable
+}
+
+/**
+ * What a re-prompt sends: the last user turn for "resend" (the continuation
+ * message when it is unknown, e.g. after a restart), the continuation message
+ * for "continue". Undefined for "switch", which does not re-prompt.
+ */
+export function repromptParts(recovery: Required<RecoveryConfig>, lastTurn: PromptPart[] | undefined): PromptPart[] | undefined {
+  if (recovery.mode === "switch") return undefined
+  if (recovery.mode === "resend" && lastTurn && lastTurn.length > 0) return lastTurn
+  return [{ type: "text", text: recovery.message }]
+}
+
+/**
+ * Take a re-prompt from the session's allowance: false once max_reprompts
+ * have been sent within the window, otherwise true with this one recorded.
+ * `sent` holds the times of the session's earlier re-prompts and is pruned
+ * in place.
+ */
+export function takeReprompt(sent: number[], recovery: Required<RecoveryConfig>, now: number): boolean {
+  const since = now - parseDuration(recovery.window)
+  while (sent.length > 0 && sent[0] <= since) sent.shift()
+  if (sent.length >= recovery.max_reprompts) return false
+  sent.push(now)
+  return true
+}
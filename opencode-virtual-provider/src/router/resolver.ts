@@ -52,7 +52,7 @@ export function resolveModel(
     const modelID = normalizeModelID(target.provider, target.model)
     const modelKey = `${target.provider}/${modelID}`
 
-    if (isInCooldown(modelKey, state)) {
+    if (isInCooldown(modelKey, state, virtualModelID)) {
       log(`resolveModel: skipping ${modelKey} (in cooldown)`)
       continue
     }
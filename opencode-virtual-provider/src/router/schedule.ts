@@ -0,0 +1,74 @@
+/**
+ * Schedule-based routing.
+ *
+ * A virtual model's `schedules` are alternative target lists for named time
+ * windows (e.g. working hours); the first active window replaces the model's
+ * own targets. A single target can carry a `schedule` too, and is left out
+ * while it is inactive. Schedules are evaluated against state.clock every time
+ * targets are selected, in each schedule's timezone (default: the local one).
+ */
+
+import type { ScheduledTargets, TargetModel, VirtualModelConfig } from "../config/schema.js"
+import type { LoadedConfig } from "../config/loader.js"
+import { targetModelKey } from "../config/loader.js"
+import type { RouterState } from "./state.js"
+import { isScheduleActive } from "../util/schedule.js"
+import { logSchedule } from "../util/logger.js"
+
+/** Name reported for a model running on its own targets */
+const DEFAULT_WINDOW = "default"
+
+/** The first of the model's schedules that is active and has targets, if any */
+export function activeScheduleWindow(
+  config: VirtualModelConfig,
+  now: number,
+): ScheduledTargets | undefined {
+  return config.schedules?.find((w) => w.targets.length > 0 && isScheduleActive(w.schedule, now))
+}
+
+/**
+ * The targets in effect at `now`: the active window's list (or the model's
+ * own), minus targets whose schedule is inactive. This can be empty, in which
+ * case the profile's on_fail policy decides what happens to the request.
+ */
+export function activeTargets(config: VirtualModelConfig, now: number): TargetModel[] {
+  const targets = activeScheduleWindow(config, now)?.targets ?? config.targets
+  return targets.filter((t) => !t.schedule || isScheduleActive(t.schedule, now))
+}
+
+/** activeTargets as of state.clock; a change of active window is logged as SCHEDULE */
+export function scheduledTargets(virtualModelID: string, config: VirtualModelConfig, state: RouterState): TargetModel[] {
+  const now = state.clock.now()
+  const name = activeScheduleWindow(config, now)?.name ?? DEFAULT_WINDOW
+
+  if (config.schedules && state.scheduleWindows.get(virtualModelID) !== name) {
+    if (state.scheduleWindows.has(virtualModelID)) logSchedule(virtualModelID, name)
+    state.scheduleWindows.set(virtualModelID, name)
+  }
+
+  return activeTargets(config, now)
+}
+
+/**
+ * Which window each scheduled virtual model is in right now, and which of its
+ * targets are benched by their own schedule. Models without any schedule are
+ * left out.
+ */
+export function getScheduleSummary(
+  config: LoadedConfig,
+  state: RouterState,
+): Record<string, { window: string; inactiveTargets: string[] }> {
+  const now = state.clock.now()
+  const summary: Record<string, { window: string; inactiveTargets: string[] }> = {}
+  for (const [id, model] of config.virtualModels) {
+    const window = activeScheduleWindow(model, now)
+    const targets = window?.targets ?? model.targets
+    const inactive = targets.filter((t) => t.schedule && !isScheduleActive(t.schedule, now))
+    if (!model.schedules && !targets.some((t) => t.schedule)) continue
+    summary[id] = {
+      window: window?.name ?? DEFAULT_WINDOW,
+      inactiveTargets: inactive.map(targetModelKey),
+    }
+  }
+  return summary
+}
@@ -1,4 +1,13 @@
 import { parseDuration } from "../util/duration.js"
+import type { Clock } from "../util/clock.js"
+import type { CooldownScope, ResolvedModelConfig, TargetCapabilities, TargetCost } from "../config/schema.js"
+import type { FailureClass } from "./backoff.js"
+import { failureMatches } from "./backoff.js"
+import { systemClock } from "../util/clock.js"
+import type { Random } from "../util/random.js"
+import { systemRandom } from "../util/random.js"
+import { compileKeyPattern } from "../util/pattern.js"
+import type { RoutingNotice } from "./notify.js"
 
 /**
  * Lightweight per-model metrics tracked in memory for the lifetime of the plugin session.
@@ -11,39 +20,236 @@ export interface ModelMetrics {
   /** How many times this model triggered a fallback (was skipped to the next target) */
   fallbacks: number
   totalLatencyMs: number
+  /** Hedge races this model answered first */
+  hedgeWins: number
+  /** Hedge races this model was aborted in because the other target answered first */
+  hedgeLosses: number
+  /** Exponentially weighted moving average of time to first token, once measured */
+  ewmaTtftMs?: number
+  /** Exponentially weighted moving average of total response latency, once measured */
+  ewmaLatencyMs?: number
+}
+
+/** Weight of the newest sample in the latency moving averages */
+export const LATENCY_EWMA_ALPHA = 0.3
+
+/** Spend in USD for the current local day and month; see budget.ts */
+export interface SpendLedger {
+  day: string
+  dayUsd: number
+  month: string
+  monthUsd: number
+}
+
+/** Outcomes of the sessions assigned to one arm of an experiment; see experiment.ts */
+export interface ArmMetrics {
+  sessions: number
+  /** Completed assistant messages */
+  messages: number
+  /** Failed turns that were retried or fell back */
+  errors: number
+  /** Turns moved to another target after their target failed */
+  fallbacks: number
+  totalLatencyMs: number
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  costUsd: number
+}
+
+export type BreakerPhase = "closed" | "open" | "half_open"
+
+/** Per-target circuit breaker; transitions live in breaker.ts */
+export interface CircuitBreakerState {
+  phase: BreakerPhase
+  /** Outcomes inside the sliding window, oldest first */
+  outcomes: Array<{ at: number; ok: boolean }>
+  /** Consecutive trips, driving the open-duration escalation */
+  trips: number
+  /** When the breaker last closed (after a successful probe) */
+  closedAt?: number
 }
 
 export interface RouterState {
-  /** model key (e.g., "anthropic/claude-sonnet-4") → timestamp when cooldown expires */
+  /**
+   * Cooldown key → timestamp when the cooldown expires. Keys are model keys
+   * (e.g., "anthropic/claude-sonnet-4"), "provider:<id>", "group:<name>", or
+   * "budget:provider:<id>" / "budget:virtual:<name>" for exhausted budgets.
+   */
   cooldowns: Map<string, number>
+  /** Cooldown group name → compiled model key patterns (from cooldown_groups) */
+  cooldownGroups: Map<string, RegExp[]>
   /** virtual model ID → current round-robin index */
   roundRobinIndex: Map<string, number>
+  /** virtual model ID → model key → current weight of smooth weighted round robin */
+  smoothWeights: Map<string, Map<string, number>>
   /** model key → accumulated metrics */
   metrics: Map<string, ModelMetrics>
+  /** model key → circuit breaker; the open period itself is the entry in cooldowns */
+  breakers: Map<string, CircuitBreakerState>
+  /** "virtual:<name>" / "provider:<id>" → spend in the current day and month */
+  spend: Map<string, SpendLedger>
+  /** model key → token prices from the provider catalog (a target's own cost wins) */
+  catalogPrices: Map<string, TargetCost>
+  /** model key → context window in tokens from the provider catalog (a target's own context_limit wins) */
+  contextLimits: Map<string, number>
+  /** model key → capability flags from the provider catalog (a target's own capabilities win) */
+  capabilities: Map<string, TargetCapabilities>
+  /** virtual model ID → hedge requests currently open */
+  hedgesInFlight: Map<string, number>
+  /** virtual model ID → name of the schedule window it was last routed in */
+  scheduleWindows: Map<string, string>
+  /** "<virtual model ID>:<experiment name>" → arm name → metrics */
+  experiments: Map<string, Map<string, ArmMetrics>>
+  /** Time source for cooldowns and backoff delays */
+  clock: Clock
+  /** Random source for the random, weighted and fastest strategies */
+  random: Random
+  /** Receives routing events for the user; the plugin shows them as toasts (see notify.ts) */
+  notify: (notice: RoutingNotice) => void
+}
+
+export interface RouterStateOptions {
+  clock?: Clock
+  random?: Random
 }
 
-export function createRouterState(): RouterState {
+export function createRouterState(options: RouterStateOptions = {}): RouterState {
   return {
     cooldowns: new Map(),
+    cooldownGroups: new Map(),
     roundRobinIndex: new Map(),
+    smoothWeights: new Map(),
     metrics: new Map(),
+    breakers: new Map(),
+    spend: new Map(),
+    catalogPrices: new Map(),
+    contextLimits: new Map(),
+    capabilities: new Map(),
+    hedgesInFlight: new Map(),
+    scheduleWindows: new Map(),
+    experiments: new Map(),
+    clock: options.clock ?? systemClock,
+    random: options.random ?? systemRandom,
+    notify: () => {},
+  }
+}
+
+/**
+ * Whether a model is benched. Pass the virtual model being routed so that
+ * model's exhausted budget counts too.
+ */
+export function isInCooldown(modelKey: string, state: RouterState, virtualModelID?: string): boolean {
+  return cooldownExpiry(modelKey, state, virtualModelID) !== undefined
+}
+
+/**
+ * When a model becomes available again: the latest active cooldown among its
+ * own key, its provider, every group it belongs to and the budgets covering
+ * it. Undefined when none is active; expired entries are dropped along the way.
+ */
+export function cooldownExpiry(modelKey: string, state: RouterState, virtualModelID?: string): number | undefined {
+  const now = state.clock.now()
+  let latest: number | undefined
+  const keys = cooldownKeys(modelKey, state)
+  if (virtualModelID) keys.push(`budget:virtual:${virtualModelID.replace(/^virtual\//, "")}`)
+  for (const key of keys) {
+    const expiry = state.cooldowns.get(key)
+    if (expiry === undefined) continue
+    if (now >= expiry) {
+      state.cooldowns.delete(key)
+    } else if (latest === undefined || expiry > latest) {
+      latest = expiry
+    }
+  }
+  return latest
+}
+
+function cooldownKeys(modelKey: string, state: RouterState): string[] {
+  const provider = modelKey.split("/")[0]
+  const keys = [modelKey, `provider:${provider}`, `budget:provider:${provider}`]
+  for (const [name, patterns] of state.cooldownGroups) {
+    if (patterns.some((p) => p.test(modelKey))) keys.push(`group:${name}`)
   }
+  return keys
+}
+
+/**
+ * Cooldown key a failure of modelKey benches under the given scope. A model
+ * outside the named group is benched on its own.
+ */
+export function cooldownScopeKey(modelKey: string, scope: CooldownScope, state: RouterState): string {
+  if (scope === "model") return modelKey
+  if (scope === "provider") return `provider:${modelKey.split("/")[0]}`
+  const patterns = state.cooldownGroups.get(scope)
+  return patterns?.some((p) => p.test(modelKey)) ? `group:${scope}` : modelKey
+}
+
+/**
+ * Extend a benched target's cooldown to its whole cooldown_scope, when the
+ * failure is one scope_on lists. Returns the scope key that was benched, if any.
+ */
+export function benchScope(
+  modelKey: string,
+  failure: FailureClass,
+  ms: number,
+  settings: Pick<ResolvedModelConfig, "cooldown_scope" | "scope_on">,
+  state: RouterState,
+): string | null {
+  const key = cooldownScopeKey(modelKey, settings.cooldown_scope, state)
+  if (key === modelKey || !failureMatches(settings.scope_on, failure)) return null
+  const until = state.clock.now() + ms
+  state.cooldowns.set(key, Math.max(state.cooldowns.get(key) ?? 0, until))
+  state.notify({ kind: "cooldown", key, ms, reason: `${modelKey} failed` })
+  return key
 }
 
-export function isInCooldown(modelKey: string, state: RouterState): boolean {
-  const expiry = state.cooldowns.get(modelKey)
-  if (!expiry) return false
-  if (Date.now() >= expiry) {
-    state.cooldowns.delete(modelKey)
-    return false
+/**
+ * Install the cooldown_groups of the active config. Cooldowns of groups that
+ * no longer exist are dropped.
+ */
+export function setCooldownGroups(state: RouterState, groups: Record<string, string[]> = {}): void {
+  state.cooldownGroups = new Map(
+    Object.entries(groups).map(([name, patterns]) => [name, patterns.map(compileKeyPattern)]),
+  )
+  for (const key of state.cooldowns.keys()) {
+    if (key.startsWith("group:") && !state.cooldownGroups.has(key.slice("group:".length))) {
+      state.cooldowns.delete(key)
+    }
   }
-  return true
 }
 
-export function setCooldown(modelKey: string, duration: string | undefined, state: RouterState): void {
-  if (!duration) return
-  const ms = parseDuration(duration)
-  state.cooldowns.set(modelKey, Date.now() + ms)
+/** Put a model in cooldown for a duration string ("5m") or a number of milliseconds */
+export function setCooldown(modelKey: string, duration: string | number | undefined, state: RouterState): void {
+  if (duration === undefined || duration === "") return
+  const ms = typeof duration === "number" ? duration : parseDuration(duration)
+  state.cooldowns.set(modelKey, state.clock.now() + ms)
+}
+
+/**
+ * Drop state that no longer refers to anything in the active config.
+ * Used on config hot reload so cooldowns and metrics of surviving targets
+ * are kept while removed targets stop lingering. Rotation indexes, smooth
+ * weights and schedule windows are reset for the given virtual models, since
+ * their target lists changed or vanished.
+ */
+export function pruneState(
+  state: RouterState,
+  removedModelKeys: Iterable<string>,
+  resetVirtualModels: Iterable<string>,
+): void {
+  for (const key of removedModelKeys) {
+    state.cooldowns.delete(key)
+    state.metrics.delete(key)
+    state.breakers.delete(key)
+  }
+  for (const id of resetVirtualModels) {
+    state.roundRobinIndex.delete(id)
+    state.smoothWeights.delete(id)
+    state.scheduleWindows.delete(id)
+  }
 }
 
 // ── Metrics helpers ───────────────────────────────────────────────────────────
@@ -51,17 +257,27 @@ export function setCooldown(modelKey: string, duration: string | undefined, stat
 function getOrCreateMetrics(modelKey: string, state: RouterState): ModelMetrics {
   let m = state.metrics.get(modelKey)
   if (!m) {
-    m = { requests: 0, successes: 0, failures: 0, fallbacks: 0, totalLatencyMs: 0 }
+    m = { requests: 0, successes: 0, failures: 0, fallbacks: 0, totalLatencyMs: 0, hedgeWins: 0, hedgeLosses: 0 }
     state.metrics.set(modelKey, m)
   }
   return m
 }
 
-export function recordSuccess(modelKey: string, latencyMs: number, state: RouterState): void {
+/**
+ * Record a successful request. latencyMs is the total response time; ttftMs,
+ * when known, the time until the first token arrived.
+ */
+export function recordSuccess(modelKey: string, latencyMs: number, state: RouterState, ttftMs?: number): void {
   const m = getOrCreateMetrics(modelKey, state)
   m.requests++
   m.successes++
   m.totalLatencyMs += latencyMs
+  m.ewmaLatencyMs = ewma(m.ewmaLatencyMs, latencyMs)
+  if (ttftMs !== undefined) m.ewmaTtftMs = ewma(m.ewmaTtftMs, ttftMs)
+}
+
+function ewma(previous: number | undefined, sample: number): number {
+  return previous === undefined ? sample : previous + LATENCY_EWMA_ALPHA * (sample - previous)
 }
 
 export function recordFailure(modelKey: string, state: RouterState): void {
@@ -75,17 +291,40 @@ export function recordFallback(modelKey: string, state: RouterState): void {
   m.fallbacks++
 }
 
+/** Record the outcome of a hedge race between two targets */
+export function recordHedgeRace(winnerKey: string, loserKey: string, state: RouterState): void {
+  getOrCreateMetrics(winnerKey, state).hedgeWins++
+  getOrCreateMetrics(loserKey, state).hedgeLosses++
+}
+
 /**
- * Returns a summary of all per-model metrics, suitable for logging or a debug endpoint.
+ * Returns a summary of all per-model metrics and circuit breakers, suitable
+ * for logging or a debug endpoint.
  */
 export function getMetricsSummary(state: RouterState): Record<string, unknown> {
   const summary: Record<string, unknown> = {}
-  for (const [model, m] of state.metrics) {
+  for (const model of new Set([...state.metrics.keys(), ...state.breakers.keys()])) {
+    const m = state.metrics.get(model)
+    const breaker = state.breakers.get(model)
+    const openUntil = state.cooldowns.get(model)
     summary[model] = {
-      requests: m.requests,
-      successRate: m.requests > 0 ? (m.successes / m.requests * 100).toFixed(1) + "%" : "N/A",
-      avgLatencyMs: m.successes > 0 ? Math.round(m.totalLatencyMs / m.successes) : null,
-      fallbacks: m.fallbacks,
+      requests: m?.requests ?? 0,
+      successRate: m && m.requests > 0 ? (m.successes / m.requests * 100).toFixed(1) + "%" : "N/A",
+      avgLatencyMs: m && m.successes > 0 ? Math.round(m.totalLatencyMs / m.successes) : null,
+      ewmaTtftMs: m?.ewmaTtftMs !== undefined ? Math.round(m.ewmaTtftMs) : null,
+      ewmaLatencyMs: m?.ewmaLatencyMs !== undefined ? Math.round(m.ewmaLatencyMs) : null,
+      fallbacks: m?.fallbacks ?? 0,
+      hedgeWins: m?.hedgeWins ?? 0,
+      hedgeLosses: m?.hedgeLosses ?? 0,
+      breaker: breaker
+        ? {
+            state: breaker.phase,
+            trips: breaker.trips,
+            windowFailures: breaker.outcomes.filter((o) => !o.ok).length,
+            windowRequests: breaker.outcomes.length,
+            openUntil: breaker.phase !== "closed" && openUntil ? new Date(openUntil).toISOString() : null,
+          }
+        : { state: "closed", trips: 0, windowFailures: 0, windowRequests: 0, openUntil: null },
     }
   }
   return summary
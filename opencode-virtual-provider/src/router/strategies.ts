@@ -1,46 +1,171 @@
 import type { TargetModel, VirtualModelConfig } from "../config/schema.js"
+import { targetModelKey } from "../config/loader.js"
 import type { RouterState } from "./state.js"
+import { targetPrice } from "./budget.js"
+import { scheduledTargets } from "./schedule.js"
 
+/** Share of time-to-first-token in the fastest strategy's score when not configured */
+const DEFAULT_TTFT_WEIGHT = 0.5
+
+/** Chance the fastest strategy tries a random slower target first when not configured */
+const DEFAULT_EXPLORATION_RATE = 0.1
+
+/**
+ * Order a virtual model's targets for one request. Only the targets in effect
+ * right now take part (see schedule.ts).
+ */
 export function selectTargets(
   virtualModelId: string,
   config: VirtualModelConfig,
   state: RouterState
 ): TargetModel[] {
+  const targets = scheduledTargets(virtualModelId, config, state)
+  // Targets benched by their own schedule, or an agent rule's `only`, can
+  // leave nothing; the rotating strategies below assume at least one
+  if (targets.length === 0) return []
+
   switch (config.strategy) {
     case "sequential":
     case "priority":
-      return [...config.targets]
+    case "hedge":
+      return [...targets]
 
     case "round_robin": {
-      const idx = state.roundRobinIndex.get(virtualModelId) ?? 0
+      const idx = (state.roundRobinIndex.get(virtualModelId) ?? 0) % targets.length
       const rotated = [
-        ...config.targets.slice(idx),
-        ...config.targets.slice(0, idx)
+        ...targets.slice(idx),
+        ...targets.slice(0, idx)
       ]
       // Advance the index for next call
-      state.roundRobinIndex.set(virtualModelId, (idx + 1) % config.targets.length)
+      state.roundRobinIndex.set(virtualModelId, (idx + 1) % targets.length)
       return rotated
     }
 
     case "random":
-      return [...config.targets].sort(() => Math.random() - 0.5)
+      return shuffle([...targets], state)
 
     case "weighted":
-      return weightedSort([...config.targets])
+      return weightedSort([...targets], state)
+
+    case "weighted_round_robin":
+      return smoothWeightedSort(virtualModelId, [...targets], state)
+
+    case "fastest":
+      return fastestSort([...targets], config, state)
+
+    case "cheapest":
+      return cheapestSort([...targets], state)
 
     default:
-      return [...config.targets]
+      return [...targets]
+  }
+}
+
+/** Fisher–Yates shuffle: every order equally likely */
+function shuffle(targets: TargetModel[], state: RouterState): TargetModel[] {
+  for (let i = targets.length - 1; i > 0; i--) {
+    const j = Math.floor(state.random() * (i + 1))
+    ;[targets[i], targets[j]] = [targets[j], targets[i]]
+  }
+  return targets
+}
+
+/**
+ * Weighted sampling without replacement: each position is drawn from the
+ * remaining targets with probability proportional to weight, so a target is
+ * tried first weight/total of the time. Zero-weight targets come last, in
+ * config order.
+ */
+function weightedSort(targets: TargetModel[], state: RouterState): TargetModel[] {
+  const ordered: TargetModel[] = []
+  let remaining = targets
+  let total = remaining.reduce((sum, t) => sum + (t.weight ?? 1), 0)
+  while (total > 0) {
+    let draw = state.random() * total
+    let index = remaining.findIndex((t) => (draw -= t.weight ?? 1) < 0)
+    // Float rounding can leave draw at ~0 past the end; take the last weighted target
+    if (index === -1) index = remaining.findLastIndex((t) => (t.weight ?? 1) > 0)
+    ordered.push(remaining[index])
+    total -= remaining[index].weight ?? 1
+    remaining = remaining.filter((_, i) => i !== index)
   }
+  return [...ordered, ...remaining]
 }
 
-function weightedSort(targets: TargetModel[]): TargetModel[] {
-  // Weighted random: assign probability proportional to weight, then sort by random draw
-  const totalWeight = targets.reduce((sum, t) => sum + (t.weight ?? 1), 0)
+/**
+ * nginx-style smooth weighted round robin: every call adds each target's
+ * weight to its current weight, picks the target with the highest current
+ * weight and subtracts the total from it. Over any run of total calls each
+ * target comes first exactly weight times, spread out rather than in bursts
+ * (weights 5/1/1 give a a b a c a a). The rest follow in config order.
+ */
+function smoothWeightedSort(virtualModelId: string, targets: TargetModel[], state: RouterState): TargetModel[] {
+  let current = state.smoothWeights.get(virtualModelId)
+  if (!current) {
+    current = new Map()
+    state.smoothWeights.set(virtualModelId, current)
+  }
+
+  let total = 0
+  let best = 0
+  targets.forEach((target, i) => {
+    const key = targetModelKey(target)
+    const weight = target.weight ?? 1
+    total += weight
+    current.set(key, (current.get(key) ?? 0) + weight)
+    if (current.get(key)! > current.get(targetModelKey(targets[best]))!) best = i
+  })
+  const bestKey = targetModelKey(targets[best])
+  current.set(bestKey, current.get(bestKey)! - total)
+
+  return [targets[best], ...targets.slice(0, best), ...targets.slice(best + 1)]
+}
+
+/**
+ * Order targets by latency score, fastest first: ttft_weight × TTFT average +
+ * (1 − ttft_weight) × total-latency average. Unmeasured targets come first (in
+ * config order) so each gets sampled; a target with only one of the averages
+ * is scored on that one. With probability exploration_rate a random slower
+ * target is moved to the front, so the ranking keeps being re-checked.
+ */
+function fastestSort(targets: TargetModel[], config: VirtualModelConfig, state: RouterState): TargetModel[] {
+  const ttftWeight = config.fastest?.ttft_weight ?? DEFAULT_TTFT_WEIGHT
+  const explorationRate = config.fastest?.exploration_rate ?? DEFAULT_EXPLORATION_RATE
+
+  const score = (target: TargetModel): number => {
+    const m = state.metrics.get(targetModelKey(target))
+    const ttft = m?.ewmaTtftMs
+    const total = m?.ewmaLatencyMs
+    if (ttft === undefined && total === undefined) return -1
+    if (ttft === undefined) return total!
+    if (total === undefined) return ttft
+    return ttftWeight * ttft + (1 - ttftWeight) * total
+  }
+
+  const sorted = targets
+    .map((target, index) => ({ target, index, score: score(target) }))
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .map((x) => x.target)
+
+  if (sorted.length > 1 && state.random() < explorationRate) {
+    const [explored] = sorted.splice(1 + Math.floor(state.random() * (sorted.length - 1)), 1)
+    sorted.unshift(explored)
+  }
+  return sorted
+}
+
+/**
+ * Order targets by price, cheapest first: input plus output price per million
+ * tokens, from the target's cost block or the provider catalog. Unpriced
+ * targets keep their config order after all priced ones.
+ */
+function cheapestSort(targets: TargetModel[], state: RouterState): TargetModel[] {
+  const price = (target: TargetModel): number => {
+    const cost = targetPrice(target, state)
+    return cost ? (cost.input ?? 0) + (cost.output ?? 0) : Infinity
+  }
   return targets
-    .map(t => ({
-      target: t,
-      score: Math.random() * ((t.weight ?? 1) / totalWeight)
-    }))
-    .sort((a, b) => b.score - a.score)
-    .map(x => x.target)
+    .map((target, index) => ({ target, index, price: price(target) }))
+    .sort((a, b) => (a.price === b.price ? a.index - b.index : a.price - b.price))
+    .map((x) => x.target)
 }
@@ -0,0 +1,109 @@
+/**
+ * Time-to-first-byte deadline for target requests (StrategyProfile.timeout).
+ *
+ * A target counts as responsive once its response headers AND the first body
+ * chunk have arrived; some providers answer 200 immediately and then stall
+ * before streaming anything. A target that misses the deadline is aborted and
+ * reported as a FirstByteTimeoutError, matched by "timeout" in fallback_on.
+ */
+
+export class FirstByteTimeoutError extends Error {
+  override readonly name = "TimeoutError"
+
+  constructor(readonly timeoutMs: number, target?: string) {
+    super(`[virtual-provider] No response${target ? ` from ${target}` : ""} within ${timeoutMs}ms`)
+  }
+}
+
+/** Whole-word timeout phrases, so that e.g. "runtime output" does not count */
+const TIMEOUT_MESSAGE = /\btimed? ?out\b|\bETIMEDOUT\b|\bdeadline exceeded\b/i
+
+/**
+ * Whether an error (thrown, or a session.error payload) represents a timeout.
+ * OpenCode reports provider timeouts as APIError/UnknownError with only a
+ * message, so besides the TimeoutError name and the ETIMEDOUT code the
+ * message is checked for a timeout phrase.
+ */
+export function isTimeoutError(error: unknown): boolean {
+  if (error instanceof FirstByteTimeoutError) return true
+  if (error === null || typeof error !== "object") return false
+  const { name, code, message, data } = error as {
+    name?: unknown
+    code?: unknown
+    message?: unknown
+    data?: { message?: unknown }
+  }
+  if (name === "TimeoutError" || code === "ETIMEDOUT") return true
+  const text = typeof data?.message === "string" ? data.message : typeof message === "string" ? message : ""
+  return TIMEOUT_MESSAGE.test(text)
+}
+
+/**
+ * Call fn with an AbortSignal that fires if headers and the first body chunk
+ * do not arrive within timeoutMs (when given). Either way the result settles
+ * only once the first chunk is in, and the returned Response replays it, so
+ * callers see the full body. Aborts of parentSignal (the caller's own signal)
+ * are forwarded for the whole lifetime of the request.
+ */
+export async function withFirstByteTimeout(
+  fn: (signal: AbortSignal) => Promise<Response>,
+  timeoutMs: number | undefined,
+  parentSignal?: AbortSignal | null,
+  target?: string,
+): Promise<Response> {
+  const controller = new AbortController()
+  if (parentSignal) {
+    if (parentSignal.aborted) controller.abort(parentSignal.reason)
+    else parentSignal.addEventListener("abort", () => controller.abort(parentSignal.reason), { once: true })
+  }
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true })
+  })
+  aborted.catch(() => {})
+
+  const timer = timeoutMs
+    ? setTimeout(() => controller.abort(new FirstByteTimeoutError(timeoutMs, target)), timeoutMs)
+    : undefined
+  let reader: ChunkReader | undefined
+  try {
+    const response = await Promise.race([fn(controller.signal), aborted])
+    if (!response.body) return response
+
+    const bodyReader: ChunkReader = response.body.getReader()
+    reader = bodyReader
+    const first = await Promise.race([bodyReader.read(), aborted])
+    return new Response(replayFirstChunk(first, bodyReader), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  } catch (err) {
+    reader?.cancel(err).catch(() => {})
+    throw err
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+interface ChunkReader {
+  read(): Promise<{ done: boolean; value?: Uint8Array }>
+  cancel(reason?: unknown): Promise<void>
+}
+
+function replayFirstChunk(
+  first: { done: boolean; value?: Uint8Array },
+  reader: ChunkReader,
+): ReadableStream<Uint8Array> {
+  let replayed = false
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = replayed ? await reader.read() : first
+      replayed = true
+      if (chunk.done || !chunk.value) controller.close()
+      else controller.enqueue(chunk.value)
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
@@ -0,0 +1,195 @@
+/**
+ * Router tools the agent (and through it the user) can call.
+ *
+ * - router_status:  every virtual model with its current targets and their
+ *                   cooldowns, all active cooldowns, getMetricsSummary
+ *                   (which carries the breaker states), getSpendSummary,
+ *                   getScheduleSummary and getExperimentSummary
+ * - router_explain: why the calling session is on the target it is on
+ * - router_switch:  pin or unpin the calling session to one of its targets,
+ *                   or clear a cooldown
+ *
+ * Tools only read RouterState and the plugin's per-session routing through
+ * RouterToolsContext; pinning goes back through the plugin, which owns the
+ * session maps. Results are JSON, which agents read reliably.
+ */
+
+import { tool } from "@opencode-ai/plugin"
+import type { ToolDefinition } from "@opencode-ai/plugin"
+import type { LoadedConfig } from "./config/loader.js"
+import { targetModelKey } from "./config/loader.js"
+import type { RouterState } from "./router/state.js"
+import { cooldownExpiry, getMetricsSummary } from "./router/state.js"
+import { resetBreaker } from "./router/breaker.js"
+import { activeScheduleWindow, getScheduleSummary } from "./router/schedule.js"
+import { getExperimentSummary } from "./router/experiment.js"
+import { getSpendSummary } from "./router/budget.js"
+import type { SessionAffinity } from "./router/affinity.js"
+
+/** How the latest turn of a session was routed, and why */
+export interface RouteDecision {
+  target: string
+  at: number
+  reason: string
+  /** Targets passed over on the way, with the reason for each */
+  skipped: Array<{ target: string; reason: string }>
+}
+
+/** What the plugin knows about a session routed through a virtual model */
+export interface SessionRouting {
+  virtualModel: string
+  agent?: string
+  /** Key of the `agents` entry that applies ("*" for the catch-all rule) */
+  agentRule?: string
+  experiment?: { name: string; arm: string }
+  strategy: string
+  strategyProfile?: string
+  /** Targets the session can be routed to now, with its arm, agent rule and schedules applied */
+  targets: string[]
+  route?: RouteDecision
+  fallbackCursor: number
+  retries: number
+  affinity?: SessionAffinity
+  pinned?: string
+}
+
+export interface RouterToolsContext {
+  /** Returns the current config; read per call so hot reloads apply */
+  getConfig: () => LoadedConfig
+  state: RouterState
+  /** The session's routing, or undefined if it is not on a virtual model */
+  describeSession: (sessionID: string) => SessionRouting | undefined
+  /** Pin the session to a target's model key, or unpin it with undefined */
+  pinSession: (sessionID: string, modelKey: string | undefined) => void
+}
+
+/** A per-model summary narrowed to the models being reported */
+function onlyModels<T>(summary: Record<string, T>, models: Record<string, unknown>): Record<string, T> {
+  return Object.fromEntries(Object.entries(summary).filter(([id]) => id in models))
+}
+
+export function createRouterTools(ctx: RouterToolsContext): Record<string, ToolDefinition> {
+  const { state } = ctx
+
+  /** When a model key is available again, or null if it is now */
+  const until = (modelKey: string, virtualModelID?: string): string | null => {
+    const expiry = cooldownExpiry(modelKey, state, virtualModelID)
+    return expiry !== undefined ? new Date(expiry).toISOString() : null
+  }
+
+  const requireSession = (sessionID: string): SessionRouting => {
+    const routing = ctx.describeSession(sessionID)
+    if (!routing) throw new Error("This session is not routed through a virtual model")
+    return routing
+  }
+
+  return {
+    router_status: tool({
+      description:
+        "Show the virtual-provider router's state: each virtual model with its current targets and whether they " +
+        "are available, every active cooldown, per-target metrics including circuit breaker states, today's and " +
+        "this month's spend per virtual model and provider, the active schedule window and benched targets of " +
+        "scheduled models, and the per-arm comparison of running experiments.",
+      args: {
+        model: tool.schema.string().optional().describe('Only this virtual model, e.g. "virtual/work"'),
+      },
+      async execute(args) {
+        const config = ctx.getConfig()
+        const now = state.clock.now()
+        const models: Record<string, unknown> = {}
+        for (const [id, model] of config.virtualModels) {
+          if (args.model && id !== args.model && id !== `virtual/${args.model}`) continue
+          const window = activeScheduleWindow(model, now)
+          models[id] = {
+            strategy: model.strategy ?? "sequential",
+            strategyProfile: model.strategy_profile ?? null,
+            window: window?.name ?? null,
+            targets: (window?.targets ?? model.targets).map((target) => {
+              const key = targetModelKey(target)
+              return { target: key, availableAt: until(key, id), breaker: state.breakers.get(key)?.phase ?? "closed" }
+            }),
+          }
+        }
+        if (args.model && Object.keys(models).length === 0) throw new Error(`Unknown virtual model "${args.model}"`)
+
+        const cooldowns: Record<string, string> = {}
+        for (const [key, expiry] of state.cooldowns) {
+          if (expiry > now) cooldowns[key] = new Date(expiry).toISOString()
+        }
+        return JSON.stringify({
+          models,
+          cooldowns,
+          metrics: getMetricsSummary(state),
+          spend: getSpendSummary(state),
+          schedules: onlyModels(getScheduleSummary(config, state), models),
+          experiments: onlyModels(getExperimentSummary(config, state), models),
+        }, null, 2)
+      },
+    }),
+
+    router_explain: tool({
+      description:
+        "Explain why the current session is on the model it is on: its virtual model, agent rule, experiment arm, " +
+        "strategy, the targets skipped on the way and why, and any fallback, affinity or pin in effect.",
+      args: {},
+      async execute(_args, context) {
+        const routing = requireSession(context.sessionID)
+        return JSON.stringify({
+          ...routing,
+          route: routing.route && {
+            ...routing.route,
+            at: new Date(routing.route.at).toISOString(),
+            availableAt: until(routing.route.target, routing.virtualModel),
+          },
+          affinity: routing.affinity && {
+            target: routing.affinity.modelKey,
+            since: new Date(routing.affinity.assignedAt).toISOString(),
+          },
+        }, null, 2)
+      },
+    }),
+
+    router_switch: tool({
+      description:
+        "Change the virtual-provider router's routing. pin: send this session's messages to `target` " +
+        "(one of the targets router_explain lists for it) whenever it is available; unpin: return to the " +
+        "normal order; clear_cooldown: make `target` (a model such as \"anthropic/claude-sonnet-4-6\", or a " +
+        "cooldown key like \"provider:anthropic\") available again right away.",
+      args: {
+        action: tool.schema.enum(["pin", "unpin", "clear_cooldown"]),
+        target: tool.schema.string().optional().describe('A "provider/model" key or cooldown key'),
+      },
+      async execute(args, context) {
+        if (args.action === "unpin") {
+          const routing = requireSession(context.sessionID)
+          if (!routing.pinned) return "This session is not pinned"
+          ctx.pinSession(context.sessionID, undefined)
+          return `Unpinned this session from ${routing.pinned}`
+        }
+
+        if (!args.target) throw new Error(`${args.action} needs a target`)
+
+        if (args.action === "pin") {
+          const routing = requireSession(context.sessionID)
+          if (!routing.targets.includes(args.target)) {
+            throw new Error(
+              `${args.target} is not a target of this session on ${routing.virtualModel}; ` +
+              `choose one of ${routing.targets.join(", ")}`,
+            )
+          }
+          ctx.pinSession(context.sessionID, args.target)
+          return `Pinned this session to ${args.target}; the next message goes there unless it is in cooldown`
+        }
+
+        const active = (state.cooldowns.get(args.target) ?? 0) > state.clock.now()
+        const breaker = state.breakers.get(args.target)
+        if (!active && (!breaker || breaker.phase === "closed")) return `${args.target} is not in cooldown`
+        resetBreaker(args.target, state)
+        const remaining = until(args.target)
+        return remaining
+          ? `Cleared the cooldown of ${args.target}; it is still benched until ${remaining} by its provider, group or budget`
+          : `Cleared the cooldown of ${args.target}`
+      },
+    }),
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Time source used by the router. Injected through RouterState so tests can
+ * drive cooldowns and backoff delays without real waiting.
+ */
+export interface Clock {
+  now(): number
+  sleep(ms: number): Promise<void>
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+}
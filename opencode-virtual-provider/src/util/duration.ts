@@ -1,6 +1,12 @@
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)(ms|s|m|h)$/
+
+export function isValidDuration(duration: string): boolean {
+  return DURATION_PATTERN.test(duration)
+}
+
 // Parse duration strings like "5m", "500ms", "30s", "1h"
 export function parseDuration(duration: string): number {
-  const match = duration.match(/^(\d+(?:\.\d+)?)(ms|s|m|h)$/)
+  const match = duration.match(DURATION_PATTERN)
   if (!match) throw new Error(`Invalid duration: "${duration}"`)
   
   const value = parseFloat(match[1])
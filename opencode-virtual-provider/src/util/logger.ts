@@ -38,14 +38,41 @@ export function logCooldown(modelKey: string, until: number): void {
   console.log(`${PREFIX} COOLDOWN ${modelKey} until ${isoTime}`)
 }
 
+/** Emitted when a target's circuit breaker changes state */
+export function logBreaker(modelKey: string, phase: "closed" | "open" | "half_open", detail: string): void {
+  console.log(`${PREFIX} BREAKER ${modelKey} ${phase} (${detail})`)
+}
+
+/** Emitted when a spend budget is used up; its targets are skipped until `until` */
+export function logBudget(scope: string, period: "daily" | "monthly", spentUsd: number, limitUsd: number, until: number): void {
+  const isoTime = new Date(until).toISOString()
+  console.log(`${PREFIX} BUDGET ${scope} ${period} $${spentUsd} of $${limitUsd} spent, skipped until ${isoTime}`)
+}
+
+/** Emitted when a hedge race is decided */
+export function logHedge(virtualModel: string, winner: string, loser: string, latencyMs: number): void {
+  console.log(`${PREFIX} HEDGE ${virtualModel}: ${winner} beat ${loser} (${latencyMs}ms)`)
+}
+
+/** Emitted when a session returns from a fallback target to an earlier one */
+export function logFailBack(virtualModel: string, fromModel: string, reason: string, toModel: string): void {
+  console.log(`${PREFIX} FAILBACK ${virtualModel}: ${fromModel} (${reason}) → ${toModel}`)
+}
+
+/** Emitted when a virtual model's active schedule window changes */
+export function logSchedule(virtualModel: string, window: string): void {
+  console.log(`${PREFIX} SCHEDULE ${virtualModel} → ${window}`)
+}
+
 /** Emitted when a request is successfully routed */
 export function logRouted(virtualModel: string, modelKey: string, statusCode: number, latencyMs: number): void {
   console.log(`${PREFIX} ROUTED ${virtualModel} → ${modelKey} (${statusCode}) ${latencyMs}ms`)
 }
 
-/** Emitted when all targets for a virtual model are exhausted */
-export function logExhausted(virtualModel: string): void {
-  console.log(`${PREFIX} EXHAUSTED ${virtualModel}: all targets failed`)
+/** Emitted when all targets for a virtual model are exhausted, with the on_fail outcome if known */
+export function logExhausted(virtualModel: string, outcome?: string): void {
+  const suffix = outcome ? ` (${outcome})` : ""
+  console.log(`${PREFIX} EXHAUSTED ${virtualModel}: all targets failed${suffix}`)
 }
 
 /** Emitted when a cross-provider translation occurs */
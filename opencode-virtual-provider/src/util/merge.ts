@@ -0,0 +1,21 @@
+/**
+ * Deep-merge src into dst in-place.
+ * - Plain objects are merged key-by-key (dst keys not in src are preserved).
+ * - All other values (primitives, arrays) are replaced.
+ */
+export function deepMerge(dst: Record<string, unknown>, src: Record<string, unknown>): void {
+  for (const [key, srcVal] of Object.entries(src)) {
+    if (
+      srcVal !== null &&
+      typeof srcVal === "object" &&
+      !Array.isArray(srcVal) &&
+      dst[key] !== null &&
+      typeof dst[key] === "object" &&
+      !Array.isArray(dst[key])
+    ) {
+      deepMerge(dst[key] as Record<string, unknown>, srcVal as Record<string, unknown>)
+    } else {
+      dst[key] = srcVal
+    }
+  }
+}
@@ -0,0 +1,5 @@
+/** "openrouter/anthropic/*" → /^openrouter\/anthropic\/.*$/ */
+export function compileKeyPattern(pattern: string): RegExp {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"))
+  return new RegExp(`^${escaped.join(".*")}$`)
+}
@@ -0,0 +1,40 @@
+/**
+ * Random source used by the router, returning floats in [0, 1) like
+ * Math.random. Injected through RouterState so strategy choices can be
+ * reproduced in tests and when replaying an incident.
+ */
+export type Random = () => number
+
+export const systemRandom: Random = () => Math.random()
+
+/** A deterministic generator (mulberry32): the same seed yields the same sequence */
+export function createSeededRandom(seed: number): Random {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * A float in [0, 1) derived from a string: the same text always maps to the
+ * same value, on every machine and across restarts. 32-bit FNV-1a, followed
+ * by murmur3's finalizer so that IDs differing only in their last characters
+ * still spread evenly.
+ */
+export function hashToUnit(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return (hash >>> 0) / 4294967296
+}
@@ -0,0 +1,85 @@
+import type { Schedule } from "../config/schema.js"
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const
+
+/** "09:00-18:00"; "24:00" is allowed as an end */
+export const HOUR_RANGE = /^((?:[01]\d|2[0-3]):[0-5]\d)-((?:[01]\d|2[0-3]):[0-5]\d|24:00)$/
+
+/** Start and end of an HOUR_RANGE string in minutes after midnight */
+export function parseHourRange(hours: string): { start: number; end: number } {
+  const [, start, end] = HOUR_RANGE.exec(hours)!
+  return { start: minutesOf(start), end: minutesOf(end) }
+}
+
+function minutesOf(time: string): number {
+  const [hour, minute] = time.split(":")
+  return Number(hour) * 60 + Number(minute)
+}
+
+/** "2026-12-24" */
+export const DATE = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/
+
+interface LocalTime {
+  weekday: (typeof WEEKDAYS)[number]
+  date: string
+  minutes: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function localTime(now: number, timezone: string | undefined): LocalTime {
+  const key = timezone ?? ""
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+    formatters.set(key, formatter)
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(now).map((p) => [p.type, p.value]))
+  return {
+    weekday: parts.weekday.toLowerCase() as LocalTime["weekday"],
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  }
+}
+
+/** Whether a timezone name is one Intl understands */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether a schedule is active at `now`. All of its conditions must hold:
+ * the local weekday is in `days`, the local time is in `hours` (a range
+ * ending before it starts wraps past midnight), and the local date is within
+ * `dates` (both ends inclusive). Missing conditions always hold.
+ */
+export function isScheduleActive(schedule: Schedule, now: number): boolean {
+  const local = localTime(now, schedule.timezone)
+
+  if (schedule.days && !schedule.days.includes(local.weekday)) return false
+  if (schedule.dates?.from && local.date < schedule.dates.from) return false
+  if (schedule.dates?.to && local.date > schedule.dates.to) return false
+
+  if (schedule.hours) {
+    const { start, end } = parseHourRange(schedule.hours)
+    const inRange = start <= end
+      ? local.minutes >= start && local.minutes < end
+      : local.minutes >= start || local.minutes < end
+    if (!inRange) return false
+  }
+  return true
+}
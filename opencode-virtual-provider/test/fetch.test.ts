@@ -0,0 +1,816 @@
+import { describe, test, expect, beforeEach } from "bun:test"
+import { routeFetch } from "../src/router/fetch.js"
+import { computeBackoffDelay, executeWithBackoff } from "../src/router/backoff.js"
+import { describeError, describeResponse, errorAction } from "../src/router/classify.js"
+import { FirstByteTimeoutError, isTimeoutError, withFirstByteTimeout } from "../src/router/timeout.js"
+import { parseRateLimitReset, cooldownFor } from "../src/router/ratelimit.js"
+import { isContextLengthError } from "../src/router/context.js"
+import { loadConfig } from "../src/config/loader.js"
+import { mergeWithProfile } from "../src/config/strategies.js"
+import { resolveExhaustion } from "../src/router/exhaustion.js"
+import { createRouterState, isInCooldown, setCooldown } from "../src/router/state.js"
+import type { RouterState } from "../src/router/state.js"
+import type { RoutingNotice } from "../src/router/notify.js"
+import { HedgeLostError } from "../src/router/hedge.js"
+import { createFakeClock } from "./helpers.js"
+import type { FakeClock } from "./helpers.js"
+
+describe("computeBackoffDelay", () => {
+  test("exponential grows by the multiplier and is capped", () => {
+    const backoff = { type: "exponential" as const, initial: "100ms", multiplier: 3, max: "1s" }
+    expect([0, 1, 2, 3].map((n) => computeBackoffDelay(backoff, n))).toEqual([100, 300, 900, 1000])
+  })
+
+  test("linear grows by the initial delay each attempt", () => {
+    const backoff = { type: "linear" as const, initial: "200ms", max: "500ms" }
+    expect([0, 1, 2, 3].map((n) => computeBackoffDelay(backoff, n))).toEqual([200, 400, 500, 500])
+  })
+
+  test("fixed always waits the initial delay", () => {
+    const backoff = { type: "fixed" as const, initial: "1s", multiplier: 5 }
+    expect([0, 1, 2].map((n) => computeBackoffDelay(backoff, n))).toEqual([1000, 1000, 1000])
+  })
+
+  test("defaults to exponential from 500ms", () => {
+    expect([0, 1, 2].map((n) => computeBackoffDelay(undefined, n))).toEqual([500, 1000, 2000])
+  })
+})
+
+describe("executeWithBackoff", () => {
+  test("retries fallback-worthy statuses with backoff, then gives up", async () => {
+    const clock = createFakeClock()
+    let calls = 0
+    const result = await executeWithBackoff(
+      async () => {
+        calls++
+        return new Response("busy", { status: 429 })
+      },
+      { max_retries: 2, fallback_on: [429], backoff: { type: "linear", initial: "1s" } },
+      clock,
+    )
+    expect(result.response).toBeNull()
+    expect(result.lastStatus).toBe(429)
+    expect(result.attempts).toBe(3)
+    expect(calls).toBe(3)
+    expect(clock.sleeps).toEqual([1000, 2000])
+  })
+
+  test("returns non-fallback responses immediately", async () => {
+    const clock = createFakeClock()
+    const result = await executeWithBackoff(
+      async () => new Response("bad request", { status: 400 }),
+      { max_retries: 3, fallback_on: [429] },
+      clock,
+    )
+    expect(result.response!.status).toBe(400)
+    expect(clock.sleeps).toEqual([])
+  })
+
+  test("stops retrying once the signal is aborted", async () => {
+    const controller = new AbortController()
+    let calls = 0
+    const attempt = executeWithBackoff(
+      async () => {
+        calls++
+        controller.abort(new HedgeLostError("anthropic/claude-sonnet-4-6"))
+        throw new TypeError("network error")
+      },
+      { max_retries: 3, fallback_on: ["any_error"] },
+      createFakeClock(),
+      controller.signal,
+    )
+    await expect(attempt).rejects.toThrow("network error")
+    expect(calls).toBe(1)
+  })
+})
+
+describe("routeFetch", () => {
+  let clock: FakeClock
+  let state: RouterState
+
+  const config = loadConfig({
+    models: {
+      "work-build": {
+        strategy: "sequential",
+        strategy_profile: "retry",
+        targets: [
+          { provider: "anthropic", model: "anthropic/claude-sonnet-4-6" },
+          { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+        ],
+      },
+    },
+    strategies: {
+      retry: {
+        max_retries: 2,
+        fallback_on: [429, 503],
+        cooldown: "2m",
+        backoff: { type: "fixed", initial: "250ms" },
+      },
+    },
+  })
+
+  beforeEach(() => {
+    clock = createFakeClock()
+    state = createRouterState({ clock })
+  })
+
+  function fakeFetch(statusFor: (model: string) => number) {
+    const models: string[] = []
+    const impl = async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      models.push(model)
+      return new Response(model, { status: statusFor(model) })
+    }
+    return { models, impl: impl as unknown as typeof fetch }
+  }
+
+  function request(model = "virtual/work-build"): RequestInit {
+    return { method: "POST", body: JSON.stringify({ model, messages: [] }) }
+  }
+
+  test("retries the same target per the profile before falling back", async () => {
+    const { models, impl } = fakeFetch((m) => (m.startsWith("anthropic/") ? 429 : 200))
+    const response = await routeFetch("https://example.test/v1", request(), { getConfig: () => config, state, fetch: impl })
+
+    expect(await response.text()).toBe("openrouter/anthropic/claude-sonnet-4.6")
+    expect(models).toEqual([
+      "anthropic/claude-sonnet-4-6",
+      "anthropic/claude-sonnet-4-6",
+      "anthropic/claude-sonnet-4-6",
+      "openrouter/anthropic/claude-sonnet-4.6",
+    ])
+    expect(clock.sleeps).toEqual([250, 250])
+  })
+
+  test("puts an exhausted target in cooldown for the profile duration", async () => {
+    const { impl } = fakeFetch((m) => (m.startsWith("anthropic/") ? 503 : 200))
+    await routeFetch("https://example.test/v1", request(), { getConfig: () => config, state, fetch: impl })
+
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(true)
+    clock.advance(2 * 60 * 1000)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(false)
+  })
+
+  test("uses the profile's fallback_on instead of a fixed status list", async () => {
+    const { models, impl } = fakeFetch(() => 502)
+    const response = await routeFetch("https://example.test/v1", request(), { getConfig: () => config, state, fetch: impl })
+
+    // 502 is not in fallback_on, so it is returned as-is without retries
+    expect(response.status).toBe(502)
+    expect(models).toHaveLength(1)
+  })
+
+  test("throws once every target is exhausted", async () => {
+    const { impl } = fakeFetch(() => 429)
+    await expect(
+      routeFetch("https://example.test/v1", request(), { getConfig: () => config, state, fetch: impl }),
+    ).rejects.toThrow("All targets exhausted for virtual/work-build")
+  })
+
+  test("reports cooldowns, fallbacks and exhaustion through state.notify", async () => {
+    const notices: RoutingNotice[] = []
+    state.notify = (notice) => notices.push(notice)
+    const { impl } = fakeFetch(() => 429)
+    await expect(
+      routeFetch("https://example.test/v1", request(), { getConfig: () => config, state, fetch: impl }),
+    ).rejects.toThrow()
+
+    expect(notices).toEqual([
+      { kind: "cooldown", key: "anthropic/claude-sonnet-4-6", ms: 120_000, reason: "retries exhausted" },
+      {
+        kind: "fallback",
+        virtualModel: "virtual/work-build",
+        from: "anthropic/claude-sonnet-4-6",
+        to: "openrouter/anthropic/claude-sonnet-4.6",
+      },
+      { kind: "cooldown", key: "openrouter/anthropic/claude-sonnet-4.6", ms: 120_000, reason: "retries exhausted" },
+      { kind: "fallback", virtualModel: "virtual/work-build", from: "openrouter/anthropic/claude-sonnet-4.6", to: null },
+      { kind: "exhausted", virtualModel: "virtual/work-build", outcome: "continue_with_next" },
+    ])
+  })
+
+  test("passes through requests for unknown models", async () => {
+    const { models, impl } = fakeFetch(() => 200)
+    await routeFetch("https://example.test/v1", request("anthropic/claude-haiku-4-5"), {
+      getConfig: () => config,
+      state,
+      fetch: impl,
+    })
+    expect(models).toEqual(["anthropic/claude-haiku-4-5"])
+  })
+})
+
+describe("errorAction", () => {
+  const fallbackOn = [
+    { message: "content.?filter", action: "surface" as const },
+    { status: 400, message: "overloaded", action: "fallback" as const },
+    { name: "APIError", is_retryable: true, action: "cooldown" as const },
+    429,
+    "timeout" as const,
+  ]
+
+  test("takes the action of the first matching entry", () => {
+    const overloaded = { name: "APIError", data: { statusCode: 400, isRetryable: false, message: "Overloaded, try later" } }
+    expect(errorAction(describeError(overloaded), fallbackOn)).toBe("fallback")
+    const filtered = { name: "APIError", data: { statusCode: 400, message: "blocked by content_filter (overloaded)" } }
+    expect(errorAction(describeError(filtered), fallbackOn)).toBe("surface")
+    const rateLimited = { name: "APIError", data: { statusCode: 429, isRetryable: true } }
+    expect(errorAction(describeError(rateLimited), fallbackOn)).toBe("cooldown")
+    expect(errorAction(describeError({ name: "APIError", data: { statusCode: 429 } }), fallbackOn)).toBe("retry")
+    expect(errorAction(describeError(new FirstByteTimeoutError("anthropic/claude-sonnet-4-6", 1000)), fallbackOn)).toBe("retry")
+    expect(errorAction(describeError({ name: "APIError", data: { statusCode: 400, message: "bad" } }), fallbackOn)).toBeUndefined()
+  })
+
+  test("any_error matches every failure, and auth errors retry unless listed otherwise", () => {
+    expect(errorAction({ name: "UnknownError" }, ["any_error"])).toBe("retry")
+    expect(errorAction(describeError({ name: "ProviderAuthError", data: { message: "bad key" } }), [429])).toBe("retry")
+    expect(errorAction(describeError({ name: "ProviderAuthError" }), [{ name: "ProviderAuthError", action: "surface" }])).toBe("surface")
+  })
+
+  test("describes error bodies of failed and JSON responses", async () => {
+    const json = { "content-type": "application/json" }
+    expect(await describeResponse(new Response(JSON.stringify({ error: { message: "Overloaded" } }), { status: 529, headers: json }), true))
+      .toEqual({ status: 529, name: "APIError", isRetryable: true, message: "Overloaded" })
+    expect(await describeResponse(new Response("quota exceeded", { status: 400 }), true))
+      .toEqual({ status: 400, name: "APIError", isRetryable: false, message: "quota exceeded" })
+    expect((await describeResponse(new Response(JSON.stringify({ error: "overloaded" }), { status: 200, headers: json }), true))?.message)
+      .toBe("overloaded")
+    expect(await describeResponse(new Response(JSON.stringify({ content: "fine" }), { status: 200, headers: json }), true)).toBeUndefined()
+    expect(await describeResponse(new Response(JSON.stringify({ error: "overloaded" }), { status: 200, headers: json }), false)).toBeUndefined()
+  })
+})
+
+describe("routeFetch - error matchers", () => {
+  let clock: FakeClock
+  let state: RouterState
+
+  const config = loadConfig({
+    models: {
+      "work-build": {
+        strategy: "sequential",
+        strategy_profile: "classified",
+        targets: [
+          { provider: "anthropic", model: "claude-sonnet-4-6" },
+          { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+        ],
+      },
+    },
+    strategies: {
+      classified: {
+        max_retries: 2,
+        fallback_on: [
+          { message: "content.?filter", action: "surface" },
+          { message: "overloaded", action: "fallback" },
+          { status: 402, action: "cooldown" },
+          429,
+        ],
+        cooldown: "2m",
+      },
+    },
+  })
+
+  beforeEach(() => {
+    clock = createFakeClock()
+    state = createRouterState({ clock })
+  })
+
+  /** The first target answers with the given response; the second succeeds */
+  function failFirst(respond: () => Response) {
+    const models: string[] = []
+    const impl = async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      models.push(model)
+      return model.startsWith("anthropic/") ? respond() : new Response("ok")
+    }
+    return { models, impl: impl as unknown as typeof fetch }
+  }
+
+  const request: RequestInit = { method: "POST", body: JSON.stringify({ model: "virtual/work-build", messages: [] }) }
+  const json = { "content-type": "application/json" }
+
+  test("falls back without retries on an overload reported as a 400 or inside a 200", async () => {
+    for (const respond of [
+      () => new Response(JSON.stringify({ error: { message: "Overloaded" } }), { status: 400, headers: json }),
+      () => new Response(JSON.stringify({ error: { type: "overloaded_error", message: "Overloaded" } }), { headers: json }),
+    ]) {
+      state = createRouterState({ clock })
+      const { models, impl } = failFirst(respond)
+      const response = await routeFetch("https://example.test/v1", request, { getConfig: () => config, state, fetch: impl })
+      expect(await response.text()).toBe("ok")
+      expect(models).toEqual(["anthropic/claude-sonnet-4-6", "openrouter/anthropic/claude-sonnet-4.6"])
+      expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(true)
+    }
+    expect(clock.sleeps).toEqual([])
+  })
+
+  test("surfaces a content-filter refusal untouched", async () => {
+    const { models, impl } = failFirst(() => new Response("Blocked by content filter", { status: 400 }))
+    const response = await routeFetch("https://example.test/v1", request, { getConfig: () => config, state, fetch: impl })
+    expect(response.status).toBe(400)
+    expect(models).toHaveLength(1)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(false)
+  })
+
+  test("cooldown benches the target but passes its error on", async () => {
+    const { models, impl } = failFirst(() => new Response("quota exhausted", { status: 402 }))
+    const response = await routeFetch("https://example.test/v1", request, { getConfig: () => config, state, fetch: impl })
+    expect(response.status).toBe(402)
+    expect(await response.text()).toBe("quota exhausted")
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(true)
+
+    // The next request goes straight to the other target
+    await routeFetch("https://example.test/v1", request, { getConfig: () => config, state, fetch: impl })
+    expect(models).toEqual(["anthropic/claude-sonnet-4-6", "openrouter/anthropic/claude-sonnet-4.6"])
+  })
+})
+
+describe("routeFetch - on_fail policies", () => {
+  let clock: FakeClock
+  let state: RouterState
+
+  function configWith(profile: Record<string, unknown>, model: Record<string, unknown> = {}) {
+    return loadConfig({
+      models: {
+        "work-build": {
+          strategy_profile: "p",
+          targets: [
+            { provider: "anthropic", model: "claude-sonnet-4-6" },
+            { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+          ],
+          ...model,
+        },
+      },
+      strategies: { p: { max_retries: 0, fallback_on: [429], ...profile } },
+    })
+  }
+
+  function run(config: ReturnType<typeof loadConfig>, models: string[] = []) {
+    const impl = (async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      models.push(model)
+      return new Response(model, { status: 200 })
+    }) as unknown as typeof fetch
+    return routeFetch(
+      "https://example.test/v1",
+      { method: "POST", body: JSON.stringify({ model: "virtual/work-build" }) },
+      { getConfig: () => config, state, fetch: impl },
+    )
+  }
+
+  beforeEach(() => {
+    clock = createFakeClock()
+    state = createRouterState({ clock })
+    setCooldown("anthropic/claude-sonnet-4-6", "30s", state)
+    setCooldown("openrouter/anthropic/claude-sonnet-4.6", "2m", state)
+  })
+
+  test("throw surfaces a clear error", async () => {
+    await expect(run(configWith({ on_fail: "throw" }))).rejects.toThrow("All targets exhausted for virtual/work-build")
+  })
+
+  test("wait_for_cooldown waits for the earliest cooldown and uses that target", async () => {
+    const models: string[] = []
+    const response = await run(configWith({ on_fail: "wait_for_cooldown", max_wait: "1m" }), models)
+    expect(clock.sleeps).toEqual([30_000])
+    expect(models).toEqual(["anthropic/claude-sonnet-4-6"])
+    expect(response.status).toBe(200)
+  })
+
+  test("wait_for_cooldown gives up when nothing recovers within max_wait", async () => {
+    await expect(run(configWith({ on_fail: "wait_for_cooldown", max_wait: "10s" }))).rejects.toThrow(
+      "no target leaves cooldown within 10s",
+    )
+    expect(clock.sleeps).toEqual([])
+  })
+
+  test("last_resort ignores cooldowns", async () => {
+    const models: string[] = []
+    await run(configWith({ on_fail: "last_resort" }, { last_resort: { provider: "openai", model: "gpt-5" } }), models)
+    expect(models).toEqual(["openai/gpt-5"])
+  })
+
+  test("last_resort defaults to the last target", async () => {
+    const models: string[] = []
+    await run(configWith({ on_fail: "last_resort" }), models)
+    expect(models).toEqual(["openrouter/anthropic/claude-sonnet-4.6"])
+  })
+
+  test("applies on_fail when every target is outside its schedule", async () => {
+    // The fake clock starts at 22:13 UTC
+    const dayOnly = { timezone: "UTC", hours: "09:00-18:00" }
+    const config = configWith({ on_fail: "throw" }, {
+      targets: [
+        { provider: "anthropic", model: "claude-opus-4", schedule: dayOnly },
+        { provider: "openai", model: "gpt-5", schedule: dayOnly },
+      ],
+    })
+    const models: string[] = []
+    await expect(run(config, models)).rejects.toThrow("All targets exhausted for virtual/work-build")
+    expect(models).toEqual([])
+  })
+
+  test("last_resort throws when an agent rule left no target", async () => {
+    const model = { targets: [] }
+    const resolved = mergeWithProfile(model, { max_retries: 0, fallback_on: [429], on_fail: "last_resort" })
+    const decision = await resolveExhaustion("virtual/work-build", model, resolved, [], state)
+    expect(decision).toMatchObject({ action: "throw" })
+  })
+})
+
+describe("routeFetch - first-byte timeout", () => {
+  function configWith(fallbackOn: unknown[]) {
+    return loadConfig({
+      models: {
+        "work-build": {
+          strategy_profile: "p",
+          targets: [
+            { provider: "anthropic", model: "claude-sonnet-4-6" },
+            { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+          ],
+        },
+      },
+      strategies: { p: { max_retries: 0, fallback_on: fallbackOn, timeout: "50ms" } },
+    })
+  }
+
+  // The anthropic target answers 200 at once but never sends a body chunk
+  const stallingFetch = (async (_request: unknown, init?: RequestInit) => {
+    const model = JSON.parse(init!.body as string).model as string
+    if (model.startsWith("openrouter/")) return new Response(model)
+    return new Response(new ReadableStream({ pull: () => new Promise(() => {}) }))
+  }) as unknown as typeof fetch
+
+  function run(config: ReturnType<typeof loadConfig>, state: RouterState) {
+    return routeFetch(
+      "https://example.test/v1",
+      { method: "POST", body: JSON.stringify({ model: "virtual/work-build" }) },
+      { getConfig: () => config, state, fetch: stallingFetch },
+    )
+  }
+
+  test("falls back when the first body chunk misses the deadline", async () => {
+    const state = createRouterState()
+    const response = await run(configWith([429, "timeout"]), state)
+    expect(await response.text()).toBe("openrouter/anthropic/claude-sonnet-4.6")
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(true)
+  })
+
+  test("surfaces the timeout when fallback_on does not list it", async () => {
+    await expect(run(configWith([429]), createRouterState())).rejects.toThrow("No response from anthropic/claude-sonnet-4-6 within 50ms")
+  })
+
+  test("replays the first chunk of a response that beats the deadline", async () => {
+    const response = await withFirstByteTimeout(async () => new Response("hello world"), 1000)
+    expect(await response.text()).toBe("hello world")
+  })
+})
+
+describe("isTimeoutError", () => {
+  test("recognises thrown and session.error timeouts", () => {
+    expect(isTimeoutError(new FirstByteTimeoutError(50))).toBe(true)
+    expect(isTimeoutError({ name: "UnknownError", data: { message: "Request timed out" } })).toBe(true)
+    expect(isTimeoutError({ name: "APIError", data: { message: "rate limited", statusCode: 429 } })).toBe(false)
+    expect(isTimeoutError(Object.assign(new Error("connect failed"), { code: "ETIMEDOUT" }))).toBe(true)
+  })
+
+  test("does not match timeout words inside other words", () => {
+    const error = { name: "APIError", data: { statusCode: 400, message: "Invalid request: runtime output schema mismatch" } }
+    expect(isTimeoutError(error)).toBe(false)
+    expect(describeError(error).timeout).toBe(false)
+    expect(errorAction(describeError(error), [429, "timeout"])).toBeUndefined()
+  })
+})
+
+describe("parseRateLimitReset", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z")
+
+  test("reads Retry-After as seconds or an HTTP date", () => {
+    expect(parseRateLimitReset(new Headers({ "retry-after": "20" }), now)).toEqual({ ms: 20_000, source: "retry-after" })
+    expect(parseRateLimitReset({ "Retry-After": "Thu, 01 Jan 2026 00:00:03 GMT" }, now)?.ms).toBe(3000)
+    expect(parseRateLimitReset({ "retry-after-ms": "1500", "retry-after": "2" }, now)?.ms).toBe(1500)
+  })
+
+  test("reads OpenAI, Anthropic and epoch-style reset headers", () => {
+    expect(parseRateLimitReset({ "x-ratelimit-reset-requests": "1m30s" }, now)?.ms).toBe(90_000)
+    expect(parseRateLimitReset({ "anthropic-ratelimit-tokens-reset": "2026-01-01T00:00:07Z" }, now)?.ms).toBe(7000)
+    expect(parseRateLimitReset({ "x-ratelimit-reset": String(now + 4000) }, now)?.ms).toBe(4000)
+    expect(parseRateLimitReset({ "x-ratelimit-reset": String(now / 1000 + 5) }, now)?.ms).toBe(5000)
+  })
+
+  test("prefers the reset of the exhausted limit", () => {
+    const reset = parseRateLimitReset(
+      {
+        "x-ratelimit-remaining-requests": "0",
+        "x-ratelimit-reset-requests": "2s",
+        "x-ratelimit-remaining-tokens": "5000",
+        "x-ratelimit-reset-tokens": "45s",
+      },
+      now,
+    )
+    expect(reset).toEqual({ ms: 2000, source: "x-ratelimit-reset-requests" })
+  })
+
+  test("returns null without rate-limit headers", () => {
+    expect(parseRateLimitReset(new Headers({ "content-type": "application/json" }), now)).toBeNull()
+    expect(parseRateLimitReset(undefined, now)).toBeNull()
+  })
+
+  test("cooldownFor clamps the stated reset to the profile bounds", () => {
+    const resolved = { cooldown: "5m", min_cooldown: "5s", max_cooldown: "1m" }
+    expect(cooldownFor(resolved, null)).toBe(300_000)
+    expect(cooldownFor(resolved, { ms: 1000, source: "retry-after" })).toBe(5000)
+    expect(cooldownFor(resolved, { ms: 20_000, source: "retry-after" })).toBe(20_000)
+    expect(cooldownFor(resolved, { ms: 3_600_000, source: "retry-after" })).toBe(60_000)
+  })
+})
+
+describe("routeFetch - Retry-After cooldowns", () => {
+  test("cools a rate-limited target down for as long as it asked", async () => {
+    const clock = createFakeClock()
+    const state = createRouterState({ clock })
+    const config = loadConfig({
+      models: {
+        "work-build": {
+          strategy_profile: "p",
+          targets: [
+            { provider: "anthropic", model: "claude-sonnet-4-6" },
+            { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+          ],
+        },
+      },
+      strategies: { p: { max_retries: 0, fallback_on: [429], cooldown: "5m" } },
+    })
+    const impl = (async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      if (model.startsWith("anthropic/")) return new Response("slow down", { status: 429, headers: { "retry-after": "3" } })
+      return new Response(model)
+    }) as unknown as typeof fetch
+
+    await routeFetch(
+      "https://example.test/v1",
+      { method: "POST", body: JSON.stringify({ model: "virtual/work-build" }) },
+      { getConfig: () => config, state, fetch: impl },
+    )
+
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(true)
+    clock.advance(3000)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(false)
+  })
+})
+
+describe("routeFetch - cooldown scope", () => {
+  test("a provider outage benches the provider's other targets too", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    const config = loadConfig({
+      models: {
+        "work-build": {
+          strategy_profile: "p",
+          targets: [
+            { provider: "anthropic", model: "claude-sonnet-4-6" },
+            { provider: "anthropic", model: "claude-opus-4-1" },
+            { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+          ],
+        },
+      },
+      strategies: { p: { max_retries: 0, fallback_on: [503], cooldown_scope: "provider" } },
+    })
+    const models: string[] = []
+    const impl = (async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      models.push(model)
+      return new Response(model, { status: model.startsWith("anthropic/") ? 503 : 200 })
+    }) as unknown as typeof fetch
+
+    await routeFetch(
+      "https://example.test/v1",
+      { method: "POST", body: JSON.stringify({ model: "virtual/work-build" }) },
+      { getConfig: () => config, state, fetch: impl },
+    )
+
+    expect(models).toEqual(["anthropic/claude-sonnet-4-6", "openrouter/anthropic/claude-sonnet-4.6"])
+  })
+})
+
+describe("routeFetch - context limits", () => {
+  const config = loadConfig({
+    models: {
+      "work-build": {
+        targets: [
+          { provider: "openai", model: "gpt-5-mini", context_limit: 1000 },
+          { provider: "anthropic", model: "claude-sonnet-4-6", context_limit: 200_000 },
+        ],
+      },
+    },
+  })
+
+  function fakeFetch(respond: (model: string) => Response) {
+    const models: string[] = []
+    const impl = async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      models.push(model)
+      return respond(model)
+    }
+    return { models, impl: impl as unknown as typeof fetch }
+  }
+
+  function request(text: string): RequestInit {
+    return { method: "POST", body: JSON.stringify({ model: "virtual/work-build", messages: [{ role: "user", content: text }] }) }
+  }
+
+  test("skips targets too small for the estimated request", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    const { models, impl } = fakeFetch(() => new Response("ok"))
+    await routeFetch("https://example.test/v1", request("x".repeat(8000)), { getConfig: () => config, state, fetch: impl })
+    expect(models).toEqual(["anthropic/claude-sonnet-4-6"])
+  })
+
+  test("escalates a context-length rejection without benching the target", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    const { models, impl } = fakeFetch((m) =>
+      m.startsWith("openai/")
+        ? new Response(JSON.stringify({ error: { code: "context_length_exceeded" } }), { status: 400 })
+        : new Response("ok"),
+    )
+    const response = await routeFetch("https://example.test/v1", request("hi"), { getConfig: () => config, state, fetch: impl })
+
+    expect(await response.text()).toBe("ok")
+    expect(models).toEqual(["openai/gpt-5-mini", "anthropic/claude-sonnet-4-6"])
+    expect(isInCooldown("openai/gpt-5-mini", state)).toBe(false)
+  })
+
+  test("hands back the provider's rejection when no larger target is left", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    const { impl } = fakeFetch(() => new Response("prompt is too long", { status: 400 }))
+    const response = await routeFetch("https://example.test/v1", request("hi"), { getConfig: () => config, state, fetch: impl })
+    expect(response.status).toBe(400)
+  })
+})
+
+describe("isContextLengthError", () => {
+  test("recognises provider context-length messages", () => {
+    expect(isContextLengthError({ name: "APIError", data: { message: "prompt is too long: 210000 tokens > 200000 maximum" } })).toBe(true)
+    expect(isContextLengthError({ name: "APIError", data: { message: "Bad Request", responseBody: '{"code":"context_length_exceeded"}' } })).toBe(true)
+    expect(isContextLengthError({ name: "APIError", data: { message: "rate limited", statusCode: 429 } })).toBe(false)
+  })
+})
+
+describe("routeFetch - capabilities", () => {
+  const config = loadConfig({
+    models: {
+      "work-build": {
+        targets: [
+          { provider: "local", model: "qwen", capabilities: { tool_call: false, attachment: false } },
+          { provider: "anthropic", model: "claude-sonnet-4-6" },
+        ],
+      },
+      "work-local": {
+        targets: [{ provider: "local", model: "qwen", capabilities: { attachment: false } }],
+      },
+    },
+  })
+
+  function fakeFetch() {
+    const models: string[] = []
+    const impl = async (_request: unknown, init?: RequestInit) => {
+      models.push(JSON.parse(init!.body as string).model as string)
+      return new Response("ok")
+    }
+    return { models, impl: impl as unknown as typeof fetch }
+  }
+
+  function request(model: string, extra: Record<string, unknown>): RequestInit {
+    return { method: "POST", body: JSON.stringify({ model, ...extra }) }
+  }
+
+  test("skips targets lacking a capability the request needs", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    const { models, impl } = fakeFetch()
+    const ctx = { getConfig: () => config, state, fetch: impl }
+
+    await routeFetch("https://example.test/v1", request("virtual/work-build", { messages: [{ role: "user", content: "hi" }] }), ctx)
+    await routeFetch("https://example.test/v1", request("virtual/work-build", { tools: [{ name: "bash" }], messages: [] }), ctx)
+    expect(models).toEqual(["local/qwen", "anthropic/claude-sonnet-4-6"])
+  })
+
+  test("throws a clear error when no target is capable", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    const { impl } = fakeFetch()
+    const body = {
+      messages: [{ role: "user", content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: "" } }] }],
+    }
+    await expect(
+      routeFetch("https://example.test/v1", request("virtual/work-local", body), { getConfig: () => config, state, fetch: impl }),
+    ).rejects.toThrow("No target of virtual/work-local supports attachments")
+  })
+})
+
+describe("routeFetch - hedge", () => {
+  const config = loadConfig({
+    models: {
+      "work-build": {
+        strategy: "hedge",
+        hedge: { delay: "100ms", max_in_flight: 1 },
+        targets: [
+          { provider: "anthropic", model: "claude-sonnet-4-6" },
+          { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+        ],
+      },
+    },
+  })
+
+  // The anthropic target answers after primaryDelayMs, or never; openrouter at once
+  function hedgeFetch(primaryDelayMs?: number) {
+    const aborts: unknown[] = []
+    const models: string[] = []
+    const impl = (async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      models.push(model)
+      if (model.startsWith("openrouter/")) return new Response(model)
+      return new Promise<Response>((resolve, reject) => {
+        if (primaryDelayMs !== undefined) setTimeout(() => resolve(new Response(model)), primaryDelayMs)
+        init!.signal!.addEventListener("abort", () => {
+          aborts.push(init!.signal!.reason)
+          reject(init!.signal!.reason)
+        })
+      })
+    }) as unknown as typeof fetch
+    return { aborts, models, impl }
+  }
+
+  function run(state: RouterState, impl: typeof fetch) {
+    return routeFetch(
+      "https://example.test/v1",
+      { method: "POST", body: JSON.stringify({ model: "virtual/work-build" }) },
+      { getConfig: () => config, state, fetch: impl },
+    )
+  }
+
+  test("races the next target after the delay and aborts the loser", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    const { aborts, impl } = hedgeFetch()
+    const response = await run(state, impl)
+
+    expect(await response.text()).toBe("openrouter/anthropic/claude-sonnet-4.6")
+    expect(aborts).toHaveLength(1)
+    expect((aborts[0] as Error).name).toBe("HedgeLostError")
+    expect(state.metrics.get("openrouter/anthropic/claude-sonnet-4.6")).toMatchObject({ hedgeWins: 1, hedgeLosses: 0 })
+    expect(state.metrics.get("anthropic/claude-sonnet-4-6")).toMatchObject({ hedgeWins: 0, hedgeLosses: 1, failures: 0 })
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(false)
+    expect(state.hedgesInFlight.size).toBe(0)
+  })
+
+  test("the losing hedge stops retrying and frees its slot", async () => {
+    const retrying = loadConfig({
+      models: {
+        "work-build": {
+          strategy: "hedge",
+          strategy_profile: "retry",
+          hedge: { delay: "100ms", max_in_flight: 1 },
+          targets: [
+            { provider: "anthropic", model: "claude-sonnet-4-6" },
+            { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+          ],
+        },
+      },
+      strategies: { retry: { max_retries: 3, fallback_on: [429] } },
+    })
+    // The anthropic target answers once the hedge is out; openrouter only fails when aborted
+    const models: string[] = []
+    const impl = (async (_request: unknown, init?: RequestInit) => {
+      const model = JSON.parse(init!.body as string).model as string
+      models.push(model)
+      if (model.startsWith("anthropic/")) return new Promise<Response>((r) => setTimeout(() => r(new Response(model)), 1))
+      return new Promise<Response>((_resolve, reject) => {
+        init!.signal!.addEventListener("abort", () => reject(init!.signal!.reason))
+      })
+    }) as unknown as typeof fetch
+    const state = createRouterState({ clock: createFakeClock() })
+    const response = await routeFetch(
+      "https://example.test/v1",
+      { method: "POST", body: JSON.stringify({ model: "virtual/work-build" }) },
+      { getConfig: () => retrying, state, fetch: impl },
+    )
+
+    expect(await response.text()).toBe("anthropic/claude-sonnet-4-6")
+    await new Promise((r) => setTimeout(r, 5))
+    expect(models).toEqual(["anthropic/claude-sonnet-4-6", "openrouter/anthropic/claude-sonnet-4.6"])
+    expect(state.hedgesInFlight.size).toBe(0)
+    expect(state.metrics.get("openrouter/anthropic/claude-sonnet-4.6")).toMatchObject({ hedgeLosses: 1, failures: 0 })
+  })
+
+  test("does not hedge a target that answers within the delay", async () => {
+    const neverElapses = { now: () => 0, sleep: () => new Promise<void>(() => {}) }
+    const state = createRouterState({ clock: neverElapses })
+    const { models, impl } = hedgeFetch(1)
+    expect(await (await run(state, impl)).text()).toBe("anthropic/claude-sonnet-4-6")
+    expect(models).toEqual(["anthropic/claude-sonnet-4-6"])
+  })
+
+  test("waits for the first target once max_in_flight hedges are open", async () => {
+    const state = createRouterState({ clock: createFakeClock() })
+    state.hedgesInFlight.set("virtual/work-build", 1)
+    const { models, impl } = hedgeFetch(1)
+    expect(await (await run(state, impl)).text()).toBe("anthropic/claude-sonnet-4-6")
+    expect(models).toEqual(["anthropic/claude-sonnet-4-6"])
+  })
+})
@@ -0,0 +1,24 @@
+import type { Clock } from "../src/util/clock.js"
+
+export interface FakeClock extends Clock {
+  /** Every delay passed to sleep(), in order */
+  sleeps: number[]
+  advance(ms: number): void
+}
+
+/** A clock whose time only moves when sleep() or advance() is called */
+export function createFakeClock(start = 1_700_000_000_000): FakeClock {
+  let now = start
+  const sleeps: number[] = []
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms)
+      now += ms
+    },
+    advance: (ms) => {
+      now += ms
+    },
+  }
+}
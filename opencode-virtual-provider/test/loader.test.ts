@@ -0,0 +1,444 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { mkdtemp, mkdir, writeFile, rm, readFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join, resolve } from "node:path"
+import { loadConfig, loadConfigFromDirectory, getConfigLayers, formatConfigSources, validateConfig } from "../src/config/loader.js"
+import { buildVirtualProviderModels, DEFAULT_VIRTUAL_MODEL_METADATA } from "../src/config/loader.js"
+import type { ProviderCatalogEntry } from "../src/config/loader.js"
+import { loadProviderCatalog } from "../src/config/catalog.js"
+import { validateRawConfig, formatIssue } from "../src/config/validate.js"
+
+describe("loadConfigFromDirectory - layers", () => {
+  let root: string
+  let home: string
+  let project: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "opencode-virtual-layers-"))
+    home = join(root, "home")
+    project = join(root, "project")
+    await mkdir(join(home, ".config", "opencode"), { recursive: true })
+    await mkdir(join(project, "config", "opencode"), { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  async function writeJson(path: string, value: unknown): Promise<void> {
+    await writeFile(path, JSON.stringify(value), "utf8")
+  }
+
+  const globalPath = () => join(home, ".config", "opencode", "router.json")
+  const projectPath = () => join(project, "config", "opencode", "router.json")
+
+  test("orders layers global, project, env", () => {
+    const layers = getConfigLayers(project, { OPENCODE_ROUTER_CONFIG: "custom.json" }, home)
+    expect(layers.map((l) => l.name)).toEqual(["global", "project", "env"])
+    expect(layers[0].path).toBe(globalPath())
+    expect(layers[2].path).toBe(join(project, "custom.json"))
+  })
+
+  test("honours XDG_CONFIG_HOME for the global layer", () => {
+    const layers = getConfigLayers(project, { XDG_CONFIG_HOME: "/xdg" }, home)
+    expect(layers[0].path).toBe("/xdg/opencode/router.json")
+  })
+
+  test("deep-merges layers with later layers taking precedence", async () => {
+    await writeJson(globalPath(), {
+      models: {
+        "work-build": {
+          strategy: "sequential",
+          strategy_profile: "shared",
+          targets: [{ provider: "anthropic", model: "claude-sonnet-4-6" }],
+        },
+        "global-only": { strategy: "sequential", targets: [{ provider: "openai", model: "gpt-5" }] },
+      },
+      strategies: { shared: { max_retries: 1, fallback_on: [429], cooldown: "5m" } },
+    })
+    await writeJson(projectPath(), {
+      models: {
+        "work-build": { cooldown: "1m", targets: [{ provider: "openrouter", model: "anthropic/claude-sonnet-4.6" }] },
+      },
+      strategies: { shared: { cooldown: "10m" } },
+    })
+    const envPath = join(root, "env.json")
+    await writeJson(envPath, { strategies: { shared: { max_retries: 3 } } })
+
+    const config = loadConfigFromDirectory(project, { OPENCODE_ROUTER_CONFIG: envPath }, home)
+
+    const workBuild = config.virtualModels.get("virtual/work-build")!
+    expect(workBuild.strategy_profile).toBe("shared")
+    expect(workBuild.cooldown).toBe("1m")
+    // Arrays are replaced, not concatenated
+    expect(workBuild.targets).toEqual([{ provider: "openrouter", model: "anthropic/claude-sonnet-4.6" }])
+    expect(config.virtualModels.has("virtual/global-only")).toBe(true)
+    expect(config.strategyProfiles.get("shared")).toEqual({ max_retries: 3, fallback_on: [429], cooldown: "10m" })
+
+    expect(config.sources!.models.get("virtual/work-build")).toEqual(["global", "project"])
+    expect(config.sources!.models.get("virtual/global-only")).toEqual(["global"])
+    expect(config.sources!.strategies.get("shared")).toEqual(["global", "project", "env"])
+    expect(formatConfigSources(config)).toContain("model virtual/work-build ← global, project")
+  })
+
+  test("missing layers are skipped", () => {
+    const config = loadConfigFromDirectory(project, {}, home)
+    expect(config.virtualModels.size).toBe(0)
+    expect(config.sources!.layers).toEqual([])
+  })
+
+  test("a malformed layer throws with its path", async () => {
+    await writeFile(globalPath(), "{ nope", "utf8")
+    expect(() => loadConfigFromDirectory(project, {}, home)).toThrow(globalPath())
+  })
+})
+
+describe("validateRawConfig", () => {
+  function errorsFor(raw: unknown): string[] {
+    return validateRawConfig(raw).map(formatIssue)
+  }
+
+  const target = { provider: "anthropic", model: "claude-sonnet-4-6" }
+
+  test("accepts a valid config", () => {
+    expect(
+      errorsFor({
+        $schema: "./router.schema.json",
+        models: { "work-build": { strategy: "sequential", strategy_profile: "p", cooldown: "5m", targets: [target] } },
+        strategies: {
+          p: {
+            max_retries: 1,
+            fallback_on: [429, 503],
+            backoff: { type: "linear", initial: "500ms", multiplier: 2, max: "5s" },
+            on_fail: "continue_with_next",
+          },
+        },
+        runtimeReplacement: { model: "virtual/work-build", agent: { build: { model: "virtual/work-build", temperature: 0 } } },
+      }),
+    ).toEqual([])
+  })
+
+  test("reports path-qualified errors", () => {
+    const errors = errorsFor({
+      models: {
+        "work-build": {
+          strategy: "round-robin",
+          cooldown: "5 min",
+          fallback_on: [429, "503"],
+          targets: [target, { provider: "openrouter", model: "x", weight: "heavy" }],
+        },
+      },
+    })
+    expect(errors).toContain(
+      'models.work-build.strategy: expected one of "sequential", "round_robin", "random", "weighted", "weighted_round_robin", "priority", "fastest", "cheapest", "hedge", got "round-robin"',
+    )
+    expect(errors).toContain('models.work-build.cooldown: expected a duration like "500ms", "30s", "5m" or "1h", got "5 min"')
+    expect(errors).toContain('models.work-build.fallback_on[1]: expected an integer, got "503"')
+    expect(errors).toContain('models.work-build.targets[1].weight: expected a number, got "heavy"')
+  })
+
+  test("reports unknown keys, missing fields and bad backoff shape", () => {
+    const errors = errorsFor({
+      modles: {},
+      models: { a: { targets: [{ provider: "anthropic" }], cooldwon: "1m" } },
+      strategies: { p: { max_retries: -1, fallback_on: [99], backoff: { type: "cubic" } } },
+    })
+    expect(errors).toContain("modles: unknown key")
+    expect(errors).toContain("models.a.cooldwon: unknown key")
+    expect(errors).toContain("models.a.targets[0].model: is required")
+    expect(errors).toContain("strategies.p.max_retries: expected an integer >= 0, got -1")
+    expect(errors).toContain("strategies.p.fallback_on[0]: expected an integer >= 100, got 99")
+    expect(errors).toContain("strategies.p.backoff.initial: is required")
+    expect(errors).toContain('strategies.p.backoff.type: expected one of "exponential", "linear", "fixed", got "cubic"')
+  })
+
+  test("checks cross-field references", () => {
+    const errors = errorsFor({
+      models: { a: { strategy: "weighted", strategy_profile: "missing", targets: [{ ...target, weight: 1 }, target] } },
+    })
+    expect(errors).toContain('models.a.strategy_profile: unknown strategy profile "missing"')
+    expect(errors).toContain("models.a.targets[1].weight: is required by the weighted strategy")
+  })
+
+  test("checks agent rules against the model's targets and profiles", () => {
+    const errors = errorsFor({
+      models: {
+        work: {
+          targets: [target, { provider: "openrouter", model: "openrouter/anthropic/claude-opus-4.6" }],
+          agents: {
+            plan: { only: ["*/anthropic/claude-opus-*"], strategy_profile: "p" },
+            build: { only: ["openai/*"], strategy: "weighted" },
+            general: { prefer: ["openrouter/*"], strategy_profile: "missing" },
+          },
+        },
+      },
+      strategies: { p: { max_retries: 0, fallback_on: [429] } },
+    })
+    expect(errors).toEqual([
+      "models.work.agents.build.strategy: the weighted strategy requires a weight on every target",
+      "models.work.agents.build.only: matches none of the model's targets",
+      'models.work.agents.general.strategy_profile: unknown strategy profile "missing"',
+    ])
+  })
+
+  test("checks agent rule `only` against every schedule window and experiment arm", () => {
+    const opus = { provider: "anthropic", model: "claude-opus-4-6" }
+    const gpt = { provider: "openai", model: "gpt-5" }
+    const errors = errorsFor({
+      models: {
+        work: {
+          targets: [opus, gpt],
+          schedules: [{ name: "night", schedule: { hours: "22:00-06:00" }, targets: [gpt] }],
+          experiment: { name: "exp", arms: [{ name: "control", weight: 1 }, { name: "gpt", weight: 1, targets: [gpt] }] },
+          agents: { plan: { only: ["anthropic/*"] }, build: { only: ["openai/*"] } },
+        },
+      },
+    })
+    expect(errors).toEqual([
+      "models.work.agents.plan.only: matches none of the targets of schedules[0]",
+      "models.work.agents.plan.only: matches none of the targets of experiment.arms[1]",
+    ])
+  })
+
+  test("checks schedules and schedule windows", () => {
+    const errors = errorsFor({
+      models: {
+        work: {
+          strategy: "weighted",
+          targets: [{ ...target, weight: 1, schedule: { timezone: "Mars/Olympus", days: ["monday"] } }],
+          schedules: [
+            { name: "work-hours", schedule: { hours: "9-18", dates: { from: "2026-13-01" } }, targets: [target] },
+            { schedule: { hours: "22:00-06:00" }, targets: [] },
+            { name: "late", schedule: { hours: "09:00-24:59" }, targets: [{ ...target, weight: 1 }] },
+            { name: "never", schedule: { hours: "09:00-09:00" }, targets: [{ ...target, weight: 1 }] },
+          ],
+        },
+      },
+    })
+    expect(errors).toEqual([
+      'models.work.targets[0].schedule.timezone: expected an IANA timezone like "Europe/Berlin", got "Mars/Olympus"',
+      'models.work.targets[0].schedule.days[0]: expected one of "sun", "mon", "tue", "wed", "thu", "fri", "sat", got "monday"',
+      'models.work.schedules[0].schedule.hours: expected an hour range like "09:00-18:00", got "9-18"',
+      'models.work.schedules[0].schedule.dates.from: expected a date like "2026-12-24", got "2026-13-01"',
+      "models.work.schedules[1].name: is required",
+      "models.work.schedules[1].targets: expected at least 1 item(s)",
+      'models.work.schedules[2].schedule.hours: expected an hour range like "09:00-18:00", got "09:00-24:59"',
+      'models.work.schedules[3].schedule.hours: hour range "09:00-09:00" is empty; its start and end must differ',
+      "models.work.schedules[0].targets[0].weight: is required by the weighted strategy",
+    ])
+  })
+
+  test("checks experiments and their arms", () => {
+    const errors = errorsFor({
+      models: {
+        work: {
+          strategy: "weighted",
+          targets: [{ ...target, weight: 1 }],
+          experiment: {
+            name: "sonnet-5",
+            start: "2026-11-01",
+            end: "2026-10-01",
+            arms: [
+              { name: "control", weight: 0 },
+              { name: "control", weight: 0, targets: [target] },
+            ],
+          },
+        },
+        solo: { strategy: "sequential", targets: [target], experiment: { arms: [{ name: "only", weight: -1 }] } },
+      },
+    })
+    expect(errors).toEqual([
+      "models.solo.experiment.name: is required",
+      "models.solo.experiment.arms: expected at least 2 item(s)",
+      "models.solo.experiment.arms[0].weight: expected a number >= 0, got -1",
+      "models.work.experiment.arms[1].targets[0].weight: is required by the weighted strategy",
+      'models.work.experiment.end: is before start "2026-11-01"',
+      'models.work.experiment.arms[1].name: duplicate arm "control"',
+      "models.work.experiment.arms: at least one arm needs a weight > 0",
+    ])
+  })
+
+  test("cooldown_scope must name a scope or a defined group", () => {
+    const errors = errorsFor({
+      cooldown_groups: { "or-anthropic": ["openrouter/anthropic/*"] },
+      strategies: {
+        ok: { max_retries: 0, fallback_on: [503], cooldown_scope: "or-anthropic" },
+        bad: { max_retries: 0, fallback_on: [503], cooldown_scope: "openai" },
+      },
+    })
+    expect(errors).toEqual([
+      'strategies.bad.cooldown_scope: expected "model", "provider" or a cooldown_groups name, got "openai"',
+    ])
+  })
+
+  test("any_error must stand alone", () => {
+    expect(errorsFor({ strategies: { p: { max_retries: 0, fallback_on: ["any_error", 429] } } })).toEqual([
+      'strategies.p.fallback_on: "any_error" may only be combined with error matchers',
+    ])
+  })
+
+  test("checks error matchers in fallback_on", () => {
+    const errors = errorsFor({
+      strategies: {
+        ok: {
+          max_retries: 0,
+          fallback_on: [{ message: "content.?filter", action: "surface" }, { status: 400, message: "overloaded" }, "any_error"],
+        },
+        bad: {
+          max_retries: 0,
+          fallback_on: [{ action: "fallback" }, { message: "(unclosed", action: "skip" }, { is_retryable: "yes" }],
+          scope_on: [{ status: 429 }],
+        },
+      },
+    })
+    expect(errors).toEqual([
+      "strategies.bad.fallback_on[0]: expected at least one of status, name, is_retryable or message",
+      expect.stringMatching(/^strategies\.bad\.fallback_on\[1\]\.message: invalid regular expression/),
+      'strategies.bad.fallback_on[1].action: expected one of "retry", "fallback", "cooldown", "surface", got "skip"',
+      "strategies.bad.fallback_on[2].is_retryable: expected a boolean, got \"yes\"",
+      "strategies.bad.scope_on[0]: expected an integer, got object",
+    ])
+  })
+
+  test("loadConfig leaves out invalid models and surfaces errors via validateConfig", () => {
+    const config = loadConfig({
+      models: {
+        good: { targets: [target] },
+        bad: { cooldown: "soon", targets: [target] },
+      },
+    })
+    expect([...config.virtualModels.keys()]).toEqual(["virtual/good"])
+    expect(validateConfig(config)).toEqual([
+      'models.bad.cooldown: expected a duration like "500ms", "30s", "5m" or "1h", got "soon"',
+    ])
+  })
+
+  test("shipped router configs are valid", async () => {
+    for (const file of ["../config/opencode/router.json", "example-virtual.json"]) {
+      const raw = JSON.parse(await readFile(resolve(import.meta.dir, "..", file), "utf8"))
+      expect(errorsFor(raw)).toEqual([])
+    }
+  })
+})
+
+describe("buildVirtualProviderModels", () => {
+  const catalog: ProviderCatalogEntry[] = [
+    {
+      id: "anthropic",
+      models: {
+        "claude-sonnet-4-6": {
+          id: "claude-sonnet-4-6",
+          name: "Claude Sonnet 4.6",
+          tool_call: true,
+          attachment: true,
+          reasoning: true,
+          temperature: true,
+          cost: { input: 3, output: 15 },
+          limit: { context: 1000000, output: 64000 },
+        },
+      },
+    },
+    {
+      id: "openrouter",
+      models: {
+        "minimax/minimax-m2.5": {
+          id: "minimax/minimax-m2.5",
+          tool_call: true,
+          attachment: false,
+          reasoning: true,
+          temperature: true,
+          limit: { context: 200000, output: 128000 },
+          provider: { npm: "@openrouter/ai-sdk-provider" },
+        },
+      },
+    },
+  ]
+
+  function build(models: Record<string, unknown>) {
+    return buildVirtualProviderModels(loadConfig({ models }), catalog)
+  }
+
+  test("intersects limits and capabilities across all targets", () => {
+    const result = build({
+      mixed: {
+        targets: [
+          { provider: "anthropic", model: "anthropic/claude-sonnet-4-6" },
+          { provider: "openrouter", model: "openrouter/minimax/minimax-m2.5" },
+        ],
+      },
+    })
+    expect(result.mixed).toMatchObject({
+      id: "mixed",
+      name: "mixed",
+      tool_call: true,
+      attachment: false,
+      reasoning: true,
+      limit: { context: 200000, output: 64000 },
+      cost: { input: 3, output: 15 },
+    })
+  })
+
+  test("does not copy target transport fields onto the alias", () => {
+    const result = build({ m: { targets: [{ provider: "openrouter", model: "minimax/minimax-m2.5" }] } })
+    expect(result.m.provider).toBeUndefined()
+  })
+
+  test("applies per-model metadata overrides last", () => {
+    const result = build({
+      m: {
+        targets: [{ provider: "anthropic", model: "claude-sonnet-4-6" }],
+        metadata: { name: "Work", limit: { context: 150000 }, reasoning: false },
+      },
+    })
+    expect(result.m).toMatchObject({ name: "Work", reasoning: false, limit: { context: 150000, output: 64000 } })
+  })
+
+  test("falls back to defaults when no target is in the catalog", () => {
+    const result = build({ m: { targets: [{ provider: "unknown", model: "nope" }] } })
+    expect(result.m).toEqual({ ...DEFAULT_VIRTUAL_MODEL_METADATA, id: "m", name: "m" })
+  })
+})
+
+describe("loadProviderCatalog", () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "opencode-virtual-catalog-"))
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  test("layers config-defined models over the models.dev cache", async () => {
+    const cachePath = join(root, "models.json")
+    await writeFile(
+      cachePath,
+      JSON.stringify({
+        anthropic: { id: "anthropic", models: { "claude-sonnet-4-6": { tool_call: true, limit: { context: 1000000, output: 64000 } } } },
+      }),
+      "utf8",
+    )
+
+    const catalog = loadProviderCatalog(
+      {
+        provider: {
+          anthropic: { models: { "claude-sonnet-4-6": { limit: { context: 200000, output: 64000 } } } },
+          local: { models: { llama: { tool_call: false } } },
+          virtual: { models: { "work-build": {} } },
+        },
+      },
+      cachePath,
+    )
+
+    expect(catalog.map((e) => e.id).sort()).toEqual(["anthropic", "local"])
+    expect(catalog.find((e) => e.id === "anthropic")!.models["claude-sonnet-4-6"]).toEqual({
+      tool_call: true,
+      limit: { context: 200000, output: 64000 },
+    })
+  })
+
+  test("tolerates a missing cache file", () => {
+    expect(loadProviderCatalog({}, join(root, "missing.json"))).toEqual([])
+  })
+})
@@ -1,12 +1,33 @@
-import { describe, test, expect, mock, beforeEach } from "bun:test"
+import { describe, test, expect, mock, beforeEach, spyOn } from "bun:test"
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 import { VirtualProviderPlugin } from "../src/index.js"
-import type { PluginInput } from "@opencode-ai/plugin"
+import { createVirtualProviderPlugin } from "../src/plugin.js"
+import { createRouterState, isInCooldown, setCooldown } from "../src/router/state.js"
+import { createFakeClock } from "./helpers.js"
+import { assignArm, getExperimentSummary } from "../src/router/experiment.js"
+import { createNotifier } from "../src/router/notify.js"
+import type { Toast } from "../src/router/notify.js"
+import { loadConfigFromDirectory } from "../src/config/loader.js"
+import { getSpendSummary } from "../src/router/budget.js"
+import type { PluginInput, ToolContext } from "@opencode-ai/plugin"
+
+// Saved spend ledgers (and the models.dev cache) go to a fresh scratch directory
+// per test, never ~/.cache, so one test's spend does not carry into the next
+beforeEach(async () => {
+  process.env["XDG_CACHE_HOME"] = await mkdtemp(join(tmpdir(), "opencode-virtual-cache-"))
+})
 
 // Minimal stub client
 function makeClient(promptResult = {}) {
   return {
     session: {
       prompt: mock(async () => promptResult),
+      abort: mock(async () => ({ data: true })),
+    },
+    tui: {
+      showToast: mock(async () => ({ data: true })),
     },
     config: {
       get: mock(async () => ({ data: {} })),
@@ -113,3 +134,1339 @@ describe("VirtualProviderPlugin", () => {
     expect(client.session.prompt).not.toHaveBeenCalled()
   })
 })
+
+describe("VirtualProviderPlugin - config hot reload", () => {
+  type ChatOutput = Parameters<NonNullable<Awaited<ReturnType<typeof VirtualProviderPlugin>>["chat.message"]>>[1]
+
+  const twoTargets = {
+    models: {
+      "work-build": {
+        strategy: "sequential",
+        cooldown: "5m",
+        fallback_on: [429],
+        targets: [
+          { provider: "anthropic", model: "claude-sonnet-4-6" },
+          { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+        ],
+      },
+    },
+  }
+
+  let projectDir: string
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-reload-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+  })
+
+  async function writeRouterConfig(content: unknown): Promise<void> {
+    const text = typeof content === "string" ? content : JSON.stringify(content)
+    await writeFile(join(projectDir, "config", "opencode", "router.json"), text, "utf8")
+  }
+
+  async function route(hooks: Awaited<ReturnType<typeof VirtualProviderPlugin>>, sessionID: string) {
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    await hooks["chat.message"]!({ sessionID }, output as unknown as ChatOutput)
+    return output.message.model
+  }
+
+  async function waitFor(check: () => Promise<boolean>): Promise<void> {
+    for (let i = 0; i < 50; i++) {
+      if (await check()) return
+      await new Promise((r) => setTimeout(r, 50))
+    }
+    throw new Error("condition not met after reload")
+  }
+
+  test("picks up edits, keeps cooldowns, and rejects invalid files", async () => {
+    await writeRouterConfig(twoTargets)
+    const client = makeClient()
+    const hooks = await VirtualProviderPlugin(makeInput(projectDir, client))
+    const sdkConfig = {} as Parameters<NonNullable<typeof hooks.config>>[0]
+    await hooks.config!(sdkConfig)
+    expect(Object.keys(sdkConfig.provider!.virtual.models!)).toEqual(["work-build"])
+
+    expect((await route(hooks, "s1")).providerID).toBe("anthropic")
+
+    // Put the primary in cooldown via a fallback-worthy session.error
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: {
+          sessionID: "s1",
+          error: { name: "APIError", data: { message: "rate limited", statusCode: 429, isRetryable: true } },
+        },
+      },
+    })
+
+    // A new target inserted after the cooled-down primary is picked up,
+    // which only happens if the anthropic cooldown survived the reload
+    const edited = structuredClone(twoTargets)
+    edited.models["work-build"].targets.splice(1, 0, { provider: "openai", model: "gpt-5" })
+    await writeRouterConfig(edited)
+    await waitFor(async () => (await route(hooks, "s2")).providerID === "openai")
+
+    // Invalid JSON is ignored
+    await writeRouterConfig("{ not json")
+    await new Promise((r) => setTimeout(r, 300))
+    expect((await route(hooks, "s3")).providerID).toBe("openai")
+
+    // Deleting the virtual model leaves requests untouched, drops its alias
+    // and tells the sessions that were on it
+    client.session.prompt.mockClear()
+    await writeRouterConfig({ models: {} })
+    await waitFor(async () => (await route(hooks, "s1")).providerID === "virtual")
+    expect(sdkConfig.provider!.virtual.models).toEqual({})
+    const notified = (client.session.prompt.mock.calls as unknown as Array<[{ path: { id: string }; body: { parts: Array<{ text: string }> } }]>)
+      .map(([call]) => call)
+    expect(notified.map((call) => call.path.id).sort()).toEqual(["s1", "s2", "s3"])
+    expect(notified[0].body.parts[0].text).toContain("virtual/work-build was removed from router.json")
+
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  test("picks up a config directory created after startup", async () => {
+    await rm(join(projectDir, "config"), { recursive: true, force: true })
+    const hooks = await VirtualProviderPlugin(makeInput(projectDir))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    expect((await route(hooks, "s1")).providerID).toBe("virtual")
+
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeRouterConfig(twoTargets)
+    await waitFor(async () => (await route(hooks, "s2")).providerID === "anthropic")
+
+    // Edits after that are seen by the watch on the new directory itself
+    const edited = structuredClone(twoTargets)
+    edited.models["work-build"].targets.reverse()
+    await writeRouterConfig(edited)
+    await waitFor(async () => (await route(hooks, "s3")).providerID === "openrouter")
+
+    await rm(projectDir, { recursive: true, force: true })
+  })
+})
+
+describe("VirtualProviderPlugin - session.error retries", () => {
+  test("re-prompts the same target with backoff before falling back", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-retry-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy: "sequential",
+            strategy_profile: "retry",
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+            ],
+          },
+        },
+        strategies: {
+          retry: { max_retries: 2, fallback_on: [429], backoff: { type: "exponential", initial: "1s", multiplier: 3 } },
+        },
+      }),
+      "utf8",
+    )
+
+    const clock = createFakeClock()
+    const client = makeClient()
+    const plugin = createVirtualProviderPlugin({ state: createRouterState({ clock }) })
+    const hooks = await plugin(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    await hooks["chat.message"]!(
+      { sessionID: "s1" },
+      output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+    )
+
+    const rateLimited = {
+      event: {
+        type: "session.error" as const,
+        properties: {
+          sessionID: "s1",
+          error: { name: "APIError" as const, data: { message: "rate limited", statusCode: 429, isRetryable: true } },
+        },
+      },
+    }
+
+    for (let i = 0; i < 3; i++) await hooks.event!(rateLimited)
+
+    const prompted = client.session.prompt.mock.calls.map(
+      (call) => ((call as unknown[])[0] as { body: { model: { providerID: string } } }).body.model.providerID,
+    )
+    expect(prompted).toEqual(["anthropic", "anthropic", "openrouter"])
+    expect(clock.sleeps).toEqual([1000, 3000])
+
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  test("blames and leaves the target the turn went to under weighted_round_robin", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-wrr-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy: "weighted_round_robin",
+            strategy_profile: "switch",
+            targets: [
+              { provider: "anthropic", model: "a", weight: 1 },
+              { provider: "openai", model: "b", weight: 1 },
+            ],
+          },
+        },
+        strategies: { switch: { max_retries: 0, fallback_on: [429] } },
+      }),
+      "utf8",
+    )
+
+    const state = createRouterState({ clock: createFakeClock() })
+    const client = makeClient()
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    await hooks["chat.message"]!(
+      { sessionID: "s1" },
+      output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+    )
+    expect(output.message.model.providerID).toBe("anthropic")
+
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: {
+          sessionID: "s1",
+          error: { name: "APIError", data: { message: "rate limited", statusCode: 429, isRetryable: true } },
+        },
+      },
+    })
+
+    expect(isInCooldown("anthropic/a", state)).toBe(true)
+    expect(isInCooldown("openai/b", state)).toBe(false)
+    const prompted = client.session.prompt.mock.calls.map(
+      (call) => ((call as unknown[])[0] as { body: { model: { providerID: string } } }).body.model.providerID,
+    )
+    expect(prompted).toEqual(["openai"])
+
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  test("acts on fallback_on error matchers", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-matchers-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy: "sequential",
+            strategy_profile: "classified",
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+              { provider: "openai", model: "gpt-5" },
+            ],
+          },
+        },
+        strategies: {
+          classified: {
+            max_retries: 2,
+            fallback_on: [
+              { message: "content.?filter", action: "surface" },
+              { status: 400, message: "overloaded", action: "fallback" },
+              { name: "APIError", message: "quota", action: "cooldown" },
+              429,
+            ],
+          },
+        },
+      }),
+      "utf8",
+    )
+    const clock = createFakeClock()
+    const client = makeClient()
+    const state = createRouterState({ clock })
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (agent?: string) => {
+      const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+      await hooks["chat.message"]!(
+        { sessionID: "s1", agent },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model.providerID
+    }
+    const fail = (statusCode: number, message: string) =>
+      hooks.event!({
+        event: {
+          type: "session.error",
+          properties: { sessionID: "s1", error: { name: "APIError", data: { message, statusCode, isRetryable: false } } },
+        },
+      })
+    const prompted = () => client.session.prompt.mock.calls.map(
+      (call) => ((call as unknown[])[0] as { body: { model: { providerID: string } } }).body.model.providerID,
+    )
+
+    expect(await send()).toBe("anthropic")
+    await fail(400, "Your request was flagged by the content filter")
+    expect(prompted()).toEqual([])
+
+    // An overload reported as a 400 skips the retries
+    await fail(400, "Overloaded")
+    expect(prompted()).toEqual(["openrouter"])
+    expect(clock.sleeps).toEqual([])
+
+    // Cooldown benches the target without re-prompting; the next message moves on
+    await fail(403, "monthly quota exceeded")
+    expect(prompted()).toEqual(["openrouter"])
+    expect(isInCooldown("openrouter/anthropic/claude-sonnet-4.6", state)).toBe(true)
+    expect(await send()).toBe("openai")
+  })
+
+  test("cools the target down per the error's Retry-After header", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-retry-after-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy_profile: "p",
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+            ],
+          },
+        },
+        strategies: { p: { max_retries: 0, fallback_on: [429], min_cooldown: "10s" } },
+      }),
+      "utf8",
+    )
+
+    const clock = createFakeClock()
+    const state = createRouterState({ clock })
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    await hooks["chat.message"]!(
+      { sessionID: "s1" },
+      output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+    )
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: {
+          sessionID: "s1",
+          error: {
+            name: "APIError",
+            data: { message: "rate limited", statusCode: 429, isRetryable: true, responseHeaders: { "retry-after": "2" } },
+          },
+        },
+      },
+    })
+
+    // Retry-After said 2s, raised to the profile's 10s min_cooldown
+    clock.advance(9_999)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(true)
+    clock.advance(1)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(false)
+  })
+})
+
+describe("VirtualProviderPlugin - recovery", () => {
+  async function setup(recovery: Record<string, unknown>, maxRetries = 1) {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-recovery-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy: "sequential",
+            strategy_profile: "recovering",
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+            ],
+          },
+        },
+        strategies: {
+          recovering: { max_retries: maxRetries, fallback_on: [429], backoff: { type: "fixed", initial: "1s" }, recovery },
+        },
+      }),
+      "utf8",
+    )
+    const clock = createFakeClock()
+    const client = makeClient()
+    const hooks = await createVirtualProviderPlugin({ state: createRouterState({ clock }) })(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (parts: unknown[] = [{ type: "text", text: "hi" }]) => {
+      const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts }
+      await hooks["chat.message"]!(
+        { sessionID: "s1", agent: "build" },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model.providerID
+    }
+    const fail = () =>
+      hooks.event!({
+        event: {
+          type: "session.error",
+          properties: {
+            sessionID: "s1",
+            error: { name: "APIError", data: { message: "rate limited", statusCode: 429, isRetryable: true } },
+          },
+        },
+      })
+    const prompts = () => client.session.prompt.mock.calls.map(
+      (call) => ((call as unknown[])[0] as { body: Record<string, unknown> }).body,
+    )
+    return { clock, send, fail, prompts }
+  }
+
+  test("resends the failed user message by default", async () => {
+    const { send, fail, prompts } = await setup({})
+    await send([
+      { id: "p1", sessionID: "s1", messageID: "m1", type: "text", text: "fix the bug in a.ts" },
+      { id: "p2", sessionID: "s1", messageID: "m1", type: "file", mime: "text/plain", filename: "a.ts", url: "file:///a.ts" },
+      { id: "p3", sessionID: "s1", messageID: "m1", type: "text", text: "contents of a.ts", synthetic: true },
+    ])
+    await fail()
+
+    expect(prompts()).toEqual([{
+      model: { providerID: "anthropic", modelID: "claude-sonnet-4-6" },
+      agent: "build",
+      parts: [
+        { type: "text", text: "fix the bug in a.ts" },
+        { type: "file", mime: "text/plain", filename: "a.ts", url: "file:///a.ts" },
+      ],
+    }])
+  })
+
+  test("continue sends the continuation message", async () => {
+    const { send, fail, prompts } = await setup({ mode: "continue", message: "Keep going." })
+    await send()
+    await fail()
+    expect(prompts().map((body) => body.parts)).toEqual([[{ type: "text", text: "Keep going." }]])
+  })
+
+  test("switch only tells the user where the next message goes", async () => {
+    const { send, fail, prompts } = await setup({ mode: "switch" }, 0)
+    await send()
+    await fail()
+
+    expect(prompts()).toHaveLength(1)
+    expect(prompts()[0].noReply).toBe(true)
+    expect(prompts()[0].parts).toEqual([expect.objectContaining({ text: expect.stringContaining("openrouter/") })])
+    expect(await send()).toBe("openrouter")
+  })
+
+  test("stops re-prompting once max_reprompts are used within the window", async () => {
+    const { clock, send, fail, prompts } = await setup({ max_reprompts: 2, window: "1m" }, 10)
+    await send()
+    for (let i = 0; i < 3; i++) await fail()
+    expect(prompts().map((body) => body.noReply ?? false)).toEqual([false, false, true])
+
+    clock.advance(60_000)
+    await fail()
+    expect(prompts().map((body) => body.noReply ?? false)).toEqual([false, false, true, false])
+  })
+})
+
+describe("VirtualProviderPlugin - notifications", () => {
+  test("shows a toast when a session falls back, once per model within min_interval", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-notify-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy: "sequential",
+            strategy_profile: "fast",
+            targets: [
+              { provider: "anthropic", model: "claude-opus-4-6" },
+              { provider: "minimax", model: "MiniMax-M2" },
+            ],
+          },
+        },
+        strategies: { fast: { max_retries: 0, fallback_on: [429], recovery: { mode: "switch" } } },
+        notifications: { min_interval: "1m", duration: "8s" },
+      }),
+      "utf8",
+    )
+    const client = makeClient()
+    const hooks = await createVirtualProviderPlugin({ state: createRouterState({ clock: createFakeClock() }) })(
+      makeInput(projectDir, client),
+    )
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    for (const sessionID of ["s1", "s2"]) {
+      const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+      await hooks["chat.message"]!(
+        { sessionID },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+    }
+    for (const sessionID of ["s1", "s2"]) {
+      await hooks.event!({
+        event: {
+          type: "session.error",
+          properties: { sessionID, error: { name: "APIError", data: { message: "rate limited", statusCode: 429, isRetryable: true } } },
+        },
+      })
+    }
+
+    // The cooldown is only shown at level verbose, and s2's fallback repeats s1's
+    expect(client.tui.showToast.mock.calls.map((call) => ((call as unknown[])[0] as { body: Toast }).body)).toEqual([{
+      title: "Fallback",
+      message: "virtual/work-build: anthropic/claude-opus-4-6 failed, switched to minimax/MiniMax-M2",
+      variant: "warning",
+      duration: 8000,
+    }])
+  })
+
+  test("createNotifier filters notices by level", () => {
+    const clock = createFakeClock()
+    const shown: string[] = []
+    let level: "errors" | "verbose" = "errors"
+    const notify = createNotifier(() => ({ level, min_interval: "10s" }), clock, (toast) => shown.push(toast.title))
+
+    const cooldown = { kind: "cooldown" as const, key: "anthropic/claude-opus-4-6", ms: 300_000, reason: "retries exhausted" }
+    notify(cooldown)
+    notify({ kind: "exhausted", virtualModel: "virtual/work", outcome: "throw" })
+    expect(shown).toEqual(["All targets exhausted"])
+
+    level = "verbose"
+    notify(cooldown)
+    notify(cooldown)
+    clock.advance(10_000)
+    notify(cooldown)
+    expect(shown).toEqual(["All targets exhausted", "Cooldown", "Cooldown"])
+  })
+})
+
+describe("VirtualProviderPlugin - exhaustion", () => {
+  async function setup(onFail: string) {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-exhaust-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy_profile: "p",
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+            ],
+          },
+        },
+        strategies: { p: { max_retries: 0, fallback_on: [429], on_fail: onFail } },
+      }),
+      "utf8",
+    )
+    const state = createRouterState({ clock: createFakeClock() })
+    setCooldown("anthropic/claude-sonnet-4-6", "5m", state)
+    setCooldown("openrouter/anthropic/claude-sonnet-4.6", "5m", state)
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    const send = () =>
+      hooks["chat.message"]!(
+        { sessionID: "s1" },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+    return { output, send }
+  }
+
+  test("on_fail throw rejects the message", async () => {
+    const { send } = await setup("throw")
+    await expect(send()).rejects.toThrow("All targets exhausted for virtual/work-build")
+  })
+
+  test("on_fail continue_with_next leaves the virtual model in place", async () => {
+    const { send, output } = await setup("continue_with_next")
+    await send()
+    expect(output.message.model).toEqual({ providerID: "virtual", modelID: "work-build" })
+  })
+
+  test("on_fail last_resort routes to the last target despite its cooldown", async () => {
+    const { send, output } = await setup("last_resort")
+    await send()
+    expect(output.message.model).toEqual({ providerID: "openrouter", modelID: "anthropic/claude-sonnet-4.6" })
+  })
+})
+
+describe("VirtualProviderPlugin - first-byte timeout", () => {
+  async function setup(fallbackOn: unknown[] = ["timeout"], state = createRouterState()) {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-timeout-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy_profile: "p",
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+            ],
+          },
+        },
+        strategies: { p: { max_retries: 0, fallback_on: fallbackOn, timeout: "50ms" } },
+      }),
+      "utf8",
+    )
+    const client = makeClient()
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    await hooks["chat.message"]!(
+      { sessionID: "s1" },
+      output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+    )
+    // Removed only once the test is done: the watcher would reload without the model
+    return { client, hooks, cleanup: () => rm(projectDir, { recursive: true, force: true }) }
+  }
+
+  const assistantMessage = {
+    type: "message.updated" as const,
+    properties: {
+      info: { id: "msg-a", sessionID: "s1", role: "assistant", time: { created: 0 } },
+    },
+  } as unknown as Parameters<NonNullable<Awaited<ReturnType<typeof VirtualProviderPlugin>>["event"]>>[0]["event"]
+
+  test("aborts a silent turn and falls back to the next target", async () => {
+    const { client, hooks, cleanup } = await setup()
+    await hooks.event!({ event: assistantMessage })
+
+    // The re-prompted target is silent too, so it is aborted in turn and the
+    // chain ends there (on_fail defaults to continue_with_next)
+    for (let i = 0; i < 50 && client.session.abort.mock.calls.length < 2; i++) {
+      await new Promise((r) => setTimeout(r, 20))
+    }
+    expect(client.session.abort).toHaveBeenCalledTimes(2)
+    const prompted = client.session.prompt.mock.calls.map(
+      (call) => ((call as unknown[])[0] as { body: { model: { providerID: string } } }).body.model.providerID,
+    )
+    expect(prompted).toEqual(["openrouter"])
+
+    // The abort's own MessageAbortedError is not treated as another failure
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: { sessionID: "s1", error: { name: "MessageAbortedError", data: { message: "aborted" } } },
+      },
+    })
+    expect(client.session.prompt).toHaveBeenCalledTimes(1)
+    await cleanup()
+  })
+
+  test("a completed message ends the wait for the deadline's abort error", async () => {
+    const state = createRouterState()
+    const { client, hooks, cleanup } = await setup(["timeout", { name: "MessageAbortedError" }], state)
+    await hooks.event!({ event: assistantMessage })
+    for (let i = 0; i < 50 && client.session.prompt.mock.calls.length < 1; i++) {
+      await new Promise((r) => setTimeout(r, 20))
+    }
+
+    // The re-prompted target answers, and the abort's own error never arrives
+    const reply = {
+      id: "msg-b",
+      sessionID: "s1",
+      role: "assistant",
+      providerID: "openrouter",
+      modelID: "anthropic/claude-sonnet-4.6",
+      cost: 0,
+      tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    }
+    await hooks.event!({ event: { type: "message.updated", properties: { info: { ...reply, time: { created: 0 } } } } as unknown as typeof assistantMessage })
+    await hooks.event!({
+      event: {
+        type: "message.part.updated",
+        properties: { part: { id: "p1", sessionID: "s1", messageID: "msg-b", type: "text", text: "Hi" } },
+      } as unknown as typeof assistantMessage,
+    })
+    await hooks.event!({
+      event: { type: "message.updated", properties: { info: { ...reply, time: { created: 0, completed: 1 } } } } as unknown as typeof assistantMessage,
+    })
+
+    // So a later abort is an error like any other, not the deadline's
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: { sessionID: "s1", error: { name: "MessageAbortedError", data: { message: "aborted" } } },
+      },
+    })
+    expect(client.session.abort).toHaveBeenCalledTimes(1)
+    expect(isInCooldown("openrouter/anthropic/claude-sonnet-4.6", state, "virtual/work-build")).toBe(true)
+    await cleanup()
+  })
+
+  test("the first streamed part clears the deadline", async () => {
+    const { client, hooks, cleanup } = await setup()
+    await hooks.event!({ event: assistantMessage })
+    await hooks.event!({
+      event: {
+        type: "message.part.updated",
+        properties: {
+          part: { id: "p1", sessionID: "s1", messageID: "msg-a", type: "text", text: "Hi" },
+        },
+      } as unknown as typeof assistantMessage,
+    })
+    await new Promise((r) => setTimeout(r, 150))
+
+    expect(client.session.abort).not.toHaveBeenCalled()
+    expect(client.session.prompt).not.toHaveBeenCalled()
+    await cleanup()
+  })
+})
+
+describe("VirtualProviderPlugin - completed messages", () => {
+  test("keeps spend and budgets across restarts and reloads", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-spend-"))
+    const routerPath = join(projectDir, "config", "opencode", "router.json")
+    const spendPath = join(projectDir, "spend.json")
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    const withBudget = (daily: number) => JSON.stringify({
+      models: {
+        "work-build": { budget: { daily }, targets: [{ provider: "anthropic", model: "claude-sonnet-4-6" }] },
+      },
+    })
+    await writeFile(routerPath, withBudget(0.01), "utf8")
+
+    type Hooks = Awaited<ReturnType<ReturnType<typeof createVirtualProviderPlugin>>>
+    type Event = Parameters<NonNullable<Hooks["event"]>>[0]["event"]
+    const start = async () => {
+      const state = createRouterState()
+      const hooks = await createVirtualProviderPlugin({ state, spendPath })(makeInput(projectDir))
+      await hooks.config!({} as Parameters<NonNullable<Hooks["config"]>>[0])
+      return { state, hooks }
+    }
+    const benched = (state: ReturnType<typeof createRouterState>) =>
+      isInCooldown("anthropic/claude-sonnet-4-6", state, "virtual/work-build")
+
+    const first = await start()
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    await first.hooks["chat.message"]!(
+      { sessionID: "s1" },
+      output as unknown as Parameters<NonNullable<Hooks["chat.message"]>>[1],
+    )
+    const info = {
+      id: "msg-a",
+      sessionID: "s1",
+      role: "assistant",
+      providerID: "anthropic",
+      modelID: "claude-sonnet-4-6",
+      cost: 0.02,
+      tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    }
+    await first.hooks.event!({ event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000 } } } } as unknown as Event })
+    await first.hooks.event!({
+      event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000, completed: 2000 } } } } as unknown as Event,
+    })
+    expect(benched(first.state)).toBe(true)
+
+    // A restart picks the day's spend up again, so the budget still holds
+    const second = await start()
+    expect(getSpendSummary(second.state)["virtual:work-build"]).toEqual({ today: 0.02, thisMonth: 0.02 })
+    expect(benched(second.state)).toBe(true)
+
+    // A reload that raises the budget re-checks the same spend against it
+    await writeFile(routerPath, withBudget(1), "utf8")
+    for (let i = 0; i < 50 && benched(second.state); i++) await new Promise((r) => setTimeout(r, 50))
+    expect(benched(second.state)).toBe(false)
+    expect(getSpendSummary(second.state)["virtual:work-build"]).toEqual({ today: 0.02, thisMonth: 0.02 })
+
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  test("records latency, time to first token and spend", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-latency-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: { "work-build": { strategy: "fastest", targets: [{ provider: "anthropic", model: "claude-sonnet-4-6" }] } },
+      }),
+      "utf8",
+    )
+    const state = createRouterState()
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+    await hooks["chat.message"]!(
+      { sessionID: "s1" },
+      output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+    )
+
+    type Event = Parameters<NonNullable<typeof hooks.event>>[0]["event"]
+    const info = {
+      id: "msg-a",
+      sessionID: "s1",
+      role: "assistant",
+      providerID: "anthropic",
+      modelID: "claude-sonnet-4-6",
+      cost: 0.02,
+      tokens: { input: 1000, output: 200, reasoning: 0, cache: { read: 0, write: 0 } },
+    }
+    await hooks.event!({ event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000 } } } } as unknown as Event })
+    await hooks.event!({
+      event: {
+        type: "message.part.updated",
+        properties: { part: { id: "p1", sessionID: "s1", messageID: "msg-a", type: "text", text: "Hi", time: { start: 1400 } } },
+      } as unknown as Event,
+    })
+    await hooks.event!({
+      event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000, completed: 3000 } } } } as unknown as Event,
+    })
+
+    expect(state.metrics.get("anthropic/claude-sonnet-4-6")).toMatchObject({
+      successes: 1,
+      totalLatencyMs: 2000,
+      ewmaLatencyMs: 2000,
+      ewmaTtftMs: 400,
+    })
+    // No price configured or in the catalog, so OpenCode's reported cost is counted
+    expect(state.spend.get("virtual:work-build")?.dayUsd).toBe(0.02)
+  })
+})
+
+describe("VirtualProviderPlugin - context limits", () => {
+  async function setup() {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-context-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            targets: [
+              { provider: "openai", model: "gpt-5-mini", context_limit: 1000 },
+              { provider: "anthropic", model: "claude-sonnet-4-6", context_limit: 200_000 },
+            ],
+          },
+        },
+      }),
+      "utf8",
+    )
+    const client = makeClient()
+    const state = createRouterState({ clock: createFakeClock() })
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (sessionID: string, text: string) => {
+      const output = {
+        message: { model: { providerID: "virtual", modelID: "work-build" } },
+        parts: [{ type: "text", text }],
+      }
+      await hooks["chat.message"]!(
+        { sessionID },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model
+    }
+    return { client, state, hooks, send }
+  }
+
+  test("skips targets whose context window cannot hold the conversation", async () => {
+    const { hooks, send } = await setup()
+    expect((await send("s1", "hi")).providerID).toBe("openai")
+
+    type Event = Parameters<NonNullable<typeof hooks.event>>[0]["event"]
+    await hooks.event!({
+      event: {
+        type: "message.updated",
+        properties: {
+          info: {
+            id: "msg-a",
+            sessionID: "s1",
+            role: "assistant",
+            providerID: "openai",
+            modelID: "gpt-5-mini",
+            cost: 0,
+            tokens: { input: 900, output: 80, reasoning: 0, cache: { read: 0, write: 0 } },
+            time: { created: 1000, completed: 2000 },
+          },
+        },
+      } as unknown as Event,
+    })
+
+    // 980 tokens so far plus the new message no longer fit gpt-5-mini
+    expect((await send("s1", "x".repeat(200))).providerID).toBe("anthropic")
+    expect((await send("s2", "x".repeat(200))).providerID).toBe("openai")
+  })
+
+  test("escalates a context-length error to a larger target without benching", async () => {
+    const { client, state, hooks, send } = await setup()
+    await send("s1", "hi")
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: {
+          sessionID: "s1",
+          error: { name: "APIError", data: { message: "This model's maximum context length is 1000 tokens", statusCode: 400, isRetryable: false } },
+        },
+      },
+    })
+
+    const prompted = client.session.prompt.mock.calls.map(
+      (call) => ((call as unknown[])[0] as { body: { model: { providerID: string } } }).body.model.providerID,
+    )
+    expect(prompted).toEqual(["anthropic"])
+    expect(isInCooldown("openai/gpt-5-mini", state)).toBe(false)
+    expect((await send("s1", "more")).providerID).toBe("anthropic")
+  })
+})
+
+describe("VirtualProviderPlugin - capabilities", () => {
+  test("routes attachments and tool history only to capable targets", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-capabilities-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            targets: [
+              { provider: "local", model: "qwen", capabilities: { attachment: false, tool_call: false } },
+              { provider: "anthropic", model: "claude-sonnet-4-6", capabilities: { attachment: false } },
+            ],
+          },
+        },
+      }),
+      "utf8",
+    )
+    const hooks = await createVirtualProviderPlugin()(makeInput(projectDir))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (sessionID: string, parts: unknown[]) => {
+      const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts }
+      await hooks["chat.message"]!(
+        { sessionID },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model
+    }
+
+    expect((await send("s1", [{ type: "text", text: "hi" }])).providerID).toBe("local")
+
+    // Once the session has used a tool, its history needs tool-call support
+    await hooks.event!({
+      event: {
+        type: "message.part.updated",
+        properties: { part: { id: "p1", sessionID: "s1", messageID: "msg-a", type: "tool", tool: "bash" } },
+      } as unknown as Parameters<NonNullable<typeof hooks.event>>[0]["event"],
+    })
+    expect((await send("s1", [{ type: "text", text: "again" }])).providerID).toBe("anthropic")
+
+    // A text file is inlined, an image is not
+    expect((await send("s2", [{ type: "file", mime: "text/plain", url: "file:///a.txt" }])).providerID).toBe("local")
+    await expect(send("s3", [{ type: "file", mime: "image/png", url: "data:image/png;base64," }])).rejects.toThrow(
+      "No target of virtual/work-build supports attachments",
+    )
+  })
+})
+
+describe("VirtualProviderPlugin - agent rules", () => {
+  test("routes each agent through its own rule and restarts the chain when it changes", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-agents-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          work: {
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "anthropic", model: "claude-opus-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.5" },
+            ],
+            agents: {
+              plan: { only: ["*opus*"] },
+              general: { prefer: ["openrouter/*"] },
+            },
+          },
+        },
+      }),
+      "utf8",
+    )
+    const state = createRouterState({ clock: createFakeClock() })
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (sessionID: string, agent?: string) => {
+      const output = { message: { model: { providerID: "virtual", modelID: "work" } }, parts: [] }
+      await hooks["chat.message"]!(
+        { sessionID, agent },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return `${output.message.model.providerID}/${output.message.model.modelID}`
+    }
+
+    expect(await send("s1", "build")).toBe("anthropic/claude-sonnet-4-6")
+    expect(await send("s2", "plan")).toBe("anthropic/claude-opus-4-6")
+    expect(await send("s3", "general")).toBe("openrouter/anthropic/claude-sonnet-4.5")
+
+    // s1 falls back to opus, then switches to the general agent
+    setCooldown("anthropic/claude-sonnet-4-6", "5m", state)
+    expect(await send("s1", "build")).toBe("anthropic/claude-opus-4-6")
+    expect(await send("s1", "general")).toBe("openrouter/anthropic/claude-sonnet-4.5")
+  })
+})
+
+describe("VirtualProviderPlugin - session affinity", () => {
+  test("keeps a session on its target until it fails or max_duration passes", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-affinity-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          work: {
+            strategy: "round_robin",
+            strategy_profile: "fallback",
+            affinity: { max_duration: "30m" },
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+              { provider: "openai", model: "gpt-5" },
+            ],
+          },
+        },
+        strategies: { fallback: { max_retries: 0, fallback_on: [429] } },
+      }),
+      "utf8",
+    )
+    const clock = createFakeClock()
+    const client = makeClient()
+    const state = createRouterState({ clock })
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (sessionID: string) => {
+      const output = { message: { model: { providerID: "virtual", modelID: "work" } }, parts: [] }
+      await hooks["chat.message"]!(
+        { sessionID },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model.providerID
+    }
+
+    // Balanced across sessions, sticky within one
+    expect(await send("s1")).toBe("anthropic")
+    expect(await send("s2")).toBe("openrouter")
+    expect(await send("s1")).toBe("anthropic")
+    expect(await send("s2")).toBe("openrouter")
+
+    // A failure moves s1 on to the next target in its turn's order (anthropic
+    // first by affinity, then the rotation's openai), and it stays there
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: {
+          sessionID: "s1",
+          error: { name: "APIError", data: { message: "rate limited", statusCode: 429, isRetryable: true } },
+        },
+      },
+    })
+    const reprompted = (client.session.prompt.mock.calls[0] as unknown[])[0] as { body: { model: { providerID: string } } }
+    expect(reprompted.body.model.providerID).toBe("openai")
+    expect(await send("s1")).toBe("openai")
+
+    // So does a cooldown of the pinned target
+    setCooldown("openrouter/anthropic/claude-sonnet-4.6", "10m", state)
+    expect(await send("s2")).toBe("openai")
+
+    // After max_duration the strategy's order applies again
+    clock.advance(30 * 60 * 1000)
+    expect(await send("s2")).toBe("anthropic")
+  })
+})
+
+describe("VirtualProviderPlugin - fail-back", () => {
+  test("returns sessions to the primary per the profile's fail_back policy", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-failback-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    const targets = [
+      { provider: "anthropic", model: "claude-sonnet-4-6" },
+      { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+    ]
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          sticky: { strategy_profile: "never", targets },
+          healed: { strategy_profile: "healed", targets },
+          counted: { strategy_profile: "counted", targets },
+        },
+        strategies: {
+          never: { max_retries: 0, fallback_on: [429] },
+          healed: { max_retries: 0, fallback_on: [429], fail_back: "after_cooldown" },
+          counted: { max_retries: 0, fallback_on: [429], fail_back: "after_n_messages", fail_back_messages: 2 },
+        },
+      }),
+      "utf8",
+    )
+    const clock = createFakeClock()
+    const state = createRouterState({ clock })
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (modelID: string) => {
+      const output = { message: { model: { providerID: "virtual", modelID } }, parts: [] }
+      await hooks["chat.message"]!(
+        { sessionID: modelID },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model.providerID
+    }
+
+    setCooldown("anthropic/claude-sonnet-4-6", "1m", state)
+    for (const model of ["sticky", "healed", "counted"]) expect(await send(model)).toBe("openrouter")
+
+    clock.advance(60_000)
+    const logSpy = spyOn(console, "log").mockImplementation(() => {})
+    try {
+      expect(await send("sticky")).toBe("openrouter")
+      expect(await send("healed")).toBe("anthropic")
+      expect(await send("counted")).toBe("openrouter")
+      expect(await send("counted")).toBe("openrouter")
+      expect(await send("counted")).toBe("anthropic")
+      expect(logSpy.mock.calls.map((c) => c[0])).toEqual([
+        "[virtual-provider] FAILBACK virtual/healed: openrouter/anthropic/claude-sonnet-4.6 (cooldown over) → anthropic/claude-sonnet-4-6",
+        "[virtual-provider] FAILBACK virtual/counted: openrouter/anthropic/claude-sonnet-4.6 (after 2 messages) → anthropic/claude-sonnet-4-6",
+      ])
+    } finally {
+      logSpy.mockRestore()
+    }
+  })
+})
+
+describe("VirtualProviderPlugin - experiments", () => {
+  test("keeps each session on its arm and collects metrics per arm", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-experiment-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    const experiment = {
+      name: "gpt-5-canary",
+      start: "2026-10-01",
+      end: "2026-10-20",
+      arms: [
+        { name: "control", weight: 1 },
+        { name: "canary", weight: 1, targets: [{ provider: "openai", model: "gpt-5" }, { provider: "openai", model: "gpt-5-mini" }] },
+      ],
+    }
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy: "sequential",
+            strategy_profile: "fallback",
+            targets: [{ provider: "anthropic", model: "claude-sonnet-4-6" }],
+            experiment,
+          },
+        },
+        strategies: { fallback: { max_retries: 0, fallback_on: [429] } },
+      }),
+      "utf8",
+    )
+    const clock = createFakeClock(Date.UTC(2026, 9, 15, 12))
+    const client = makeClient()
+    const state = createRouterState({ clock })
+    const hooks = await createVirtualProviderPlugin({ state })(makeInput(projectDir, client))
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    const loaded = loadConfigFromDirectory(projectDir)
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (sessionID: string) => {
+      const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+      await hooks["chat.message"]!(
+        { sessionID },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model.providerID
+    }
+
+    const sessions = Array.from({ length: 8 }, (_, i) => `ses_${i}`)
+    const armOf = (sessionID: string) => assignArm(experiment, sessionID).name
+    const canary = sessions.find((id) => armOf(id) === "canary")!
+    for (const sessionID of [...sessions, ...sessions]) {
+      expect(await send(sessionID)).toBe(armOf(sessionID) === "canary" ? "openai" : "anthropic")
+    }
+
+    // Errors and fallbacks stay within the arm's targets
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: {
+          sessionID: canary,
+          error: { name: "APIError", data: { message: "rate limited", statusCode: 429, isRetryable: true } },
+        },
+      },
+    })
+    const reprompted = (client.session.prompt.mock.calls[0] as unknown[])[0] as { body: { model: { modelID: string } } }
+    expect(reprompted.body.model.modelID).toBe("gpt-5-mini")
+
+    type Event = Parameters<NonNullable<typeof hooks.event>>[0]["event"]
+    const info = {
+      id: "msg-a",
+      sessionID: canary,
+      role: "assistant",
+      providerID: "openai",
+      modelID: "gpt-5-mini",
+      cost: 0.01,
+      tokens: { input: 1200, output: 300, reasoning: 0, cache: { read: 0, write: 0 } },
+    }
+    await hooks.event!({ event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000 } } } } as unknown as Event })
+    await hooks.event!({
+      event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000, completed: 2500 } } } } as unknown as Event,
+    })
+
+    const canarySessions = sessions.filter((id) => armOf(id) === "canary").length
+    const summary = getExperimentSummary(loaded, state) as Record<string, { arms: Record<string, unknown> }>
+    expect(summary["virtual/work-build"].arms).toMatchObject({
+      control: { sessions: sessions.length - canarySessions, messages: 0, errors: 0 },
+      canary: { sessions: canarySessions, messages: 1, errors: 1, errorRate: "50.0%", fallbacks: 1, avgLatencyMs: 1500 },
+    })
+    const status = JSON.parse(await hooks.tool!.router_status.execute({} as never, { sessionID: canary } as ToolContext))
+    expect(status.experiments["virtual/work-build"]).toEqual(JSON.parse(JSON.stringify(summary["virtual/work-build"])))
+
+    // Once the experiment is over, every session is back on the model's own targets
+    clock.advance(10 * 24 * 60 * 60 * 1000)
+    expect(await send(canary)).toBe("anthropic")
+  })
+})
+
+describe("VirtualProviderPlugin - router tools", () => {
+  test("report, explain and switch a session's routing", async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), "opencode-virtual-tools-"))
+    await mkdir(join(projectDir, "config", "opencode"), { recursive: true })
+    await writeFile(
+      join(projectDir, "config", "opencode", "router.json"),
+      JSON.stringify({
+        models: {
+          "work-build": {
+            strategy: "sequential",
+            strategy_profile: "fast",
+            targets: [
+              { provider: "anthropic", model: "claude-sonnet-4-6" },
+              { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+              { provider: "openai", model: "gpt-5" },
+            ],
+            agents: { plan: { only: ["*sonnet*"] } },
+          },
+          "work-day": {
+            targets: [
+              { provider: "anthropic", model: "claude-opus-4", schedule: { timezone: "UTC", hours: "09:00-18:00" } },
+              { provider: "openai", model: "gpt-5" },
+            ],
+          },
+        },
+        strategies: { fast: { max_retries: 0, fallback_on: [429], recovery: { mode: "switch" } } },
+      }),
+      "utf8",
+    )
+    const hooks = await createVirtualProviderPlugin({ state: createRouterState({ clock: createFakeClock() }) })(
+      makeInput(projectDir),
+    )
+    await hooks.config!({} as Parameters<NonNullable<typeof hooks.config>>[0])
+    await rm(projectDir, { recursive: true, force: true })
+
+    const send = async (agent?: string) => {
+      const output = { message: { model: { providerID: "virtual", modelID: "work-build" } }, parts: [] }
+      await hooks["chat.message"]!(
+        { sessionID: "s1", agent },
+        output as unknown as Parameters<NonNullable<(typeof hooks)["chat.message"]>>[1],
+      )
+      return output.message.model.providerID
+    }
+    const call = async (name: string, args: Record<string, unknown> = {}) =>
+      hooks.tool![name].execute(args as never, { sessionID: "s1" } as ToolContext)
+    const explain = async () => JSON.parse(await call("router_explain"))
+
+    expect(await send()).toBe("anthropic")
+    expect((await explain()).route).toMatchObject({
+      target: "anthropic/claude-sonnet-4-6",
+      reason: "first available target in the sequential order",
+      skipped: [],
+    })
+
+    await hooks.event!({
+      event: {
+        type: "session.error",
+        properties: { sessionID: "s1", error: { name: "APIError", data: { message: "rate limited", statusCode: 429, isRetryable: true } } },
+      },
+    })
+    expect((await explain()).route).toMatchObject({
+      target: "openrouter/anthropic/claude-sonnet-4.6",
+      reason: "fell back from anthropic/claude-sonnet-4-6 (APIError 429)",
+    })
+
+    type Event = Parameters<NonNullable<typeof hooks.event>>[0]["event"]
+    const info = {
+      id: "msg-1",
+      sessionID: "s1",
+      role: "assistant",
+      providerID: "openrouter",
+      modelID: "anthropic/claude-sonnet-4.6",
+      cost: 0.02,
+      tokens: { input: 1000, output: 200, reasoning: 0, cache: { read: 0, write: 0 } },
+    }
+    await hooks.event!({ event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000 } } } } as unknown as Event })
+    await hooks.event!({
+      event: { type: "message.updated", properties: { info: { ...info, time: { created: 1000, completed: 2000 } } } } as unknown as Event,
+    })
+
+    const status = JSON.parse(await call("router_status"))
+    expect(status.spend).toEqual({
+      "virtual:work-build": { today: 0.02, thisMonth: 0.02 },
+      "provider:openrouter": { today: 0.02, thisMonth: 0.02 },
+    })
+    expect(status.models["virtual/work-build"].targets[0]).toMatchObject({ target: "anthropic/claude-sonnet-4-6", breaker: "open" })
+    expect(status.cooldowns["anthropic/claude-sonnet-4-6"]).toBeString()
+    expect(status.metrics["anthropic/claude-sonnet-4-6"].breaker.state).toBe("open")
+    // The fake clock starts at 22:13 UTC, outside the day-only target's hours
+    expect(status.schedules).toEqual({ "virtual/work-day": { window: "default", inactiveTargets: ["anthropic/claude-opus-4"] } })
+
+    expect(await call("router_switch", { action: "clear_cooldown", target: "anthropic/claude-sonnet-4-6" }))
+      .toBe("Cleared the cooldown of anthropic/claude-sonnet-4-6")
+    expect(JSON.parse(await call("router_status")).models["virtual/work-build"].targets[0].availableAt).toBeNull()
+
+    await call("router_switch", { action: "pin", target: "openai/gpt-5" })
+    expect(await send()).toBe("openai")
+    expect((await explain()).route.reason).toBe("pinned with router_switch")
+    await expect(call("router_switch", { action: "pin", target: "openai/gpt-4" }))
+      .rejects.toThrow("not a target of this session on virtual/work-build")
+
+    await call("router_switch", { action: "unpin" })
+    expect(await send()).toBe("anthropic")
+
+    // The plan agent's rule leaves only the sonnet targets to pin to
+    await send("plan")
+    expect((await explain()).targets).toEqual(["anthropic/claude-sonnet-4-6", "openrouter/anthropic/claude-sonnet-4.6"])
+    await expect(call("router_switch", { action: "pin", target: "openai/gpt-5" }))
+      .rejects.toThrow("choose one of anthropic/claude-sonnet-4-6, openrouter/anthropic/claude-sonnet-4.6")
+  })
+})
@@ -1,8 +1,36 @@
-import { describe, it, expect, beforeEach } from "bun:test"
+import { describe, it, expect, beforeEach, spyOn } from "bun:test"
 import { selectTargets } from "../src/router/strategies.js"
-import { createRouterState, isInCooldown, setCooldown } from "../src/router/state.js"
+import { applyAgentRule } from "../src/router/agents.js"
+import { getScheduleSummary } from "../src/router/schedule.js"
+import {
+  assignArm,
+  applyExperimentArm,
+  isExperimentActive,
+  recordArmSession,
+  recordArmMessage,
+  recordArmError,
+  recordArmFallback,
+  getExperimentSummary,
+} from "../src/router/experiment.js"
+import {
+  createRouterState,
+  isInCooldown,
+  setCooldown,
+  pruneState,
+  recordFailure,
+  getMetricsSummary,
+  recordSuccess,
+  benchScope,
+  setCooldownGroups,
+} from "../src/router/state.js"
 import type { RouterState } from "../src/router/state.js"
+import { noteDispatch, noteFailure, noteSuccess, tripBreaker } from "../src/router/breaker.js"
+import { mergeWithProfile } from "../src/config/strategies.js"
+import { messageCost, recordSpend, refreshBudgets, getSpendSummary } from "../src/router/budget.js"
+import { loadConfig } from "../src/config/loader.js"
 import type { VirtualModelConfig, TargetModel } from "../src/config/schema.js"
+import { createFakeClock } from "./helpers.js"
+import { createSeededRandom } from "../src/util/random.js"
 
 const targetA: TargetModel = { provider: "anthropic", model: "claude-opus-4", weight: 3 }
 const targetB: TargetModel = { provider: "anthropic", model: "claude-sonnet-4", weight: 1 }
@@ -32,6 +60,19 @@ describe("selectTargets - sequential", () => {
   })
 })
 
+describe("selectTargets - empty target list", () => {
+  it("returns no targets under every strategy", () => {
+    const state = createRouterState()
+    const strategies = [
+      "sequential", "priority", "round_robin", "random", "weighted", "weighted_round_robin", "fastest", "cheapest", "hedge",
+    ] as const
+    for (const strategy of strategies) {
+      expect(selectTargets("virtual/test", makeConfig(strategy, []), state)).toEqual([])
+    }
+    expect(state.roundRobinIndex.size).toBe(0)
+  })
+})
+
 describe("selectTargets - priority", () => {
   it("returns targets in original order (same as sequential)", () => {
     const state = createRouterState()
@@ -119,6 +160,24 @@ describe("selectTargets - random", () => {
     selectTargets("virtual/test", config, state)
     expect(config.targets).toEqual(original)
   })
+
+  it("is reproducible with a seeded random source", () => {
+    const run = () => {
+      const state = createRouterState({ random: createSeededRandom(42) })
+      return Array.from({ length: 5 }, () => selectTargets("virtual/test", makeConfig("random"), state).map((t) => t.model))
+    }
+    expect(run()).toEqual(run())
+  })
+
+  it("puts each target first equally often", () => {
+    const state = createRouterState({ random: createSeededRandom(7) })
+    const counts = new Map<string, number>()
+    for (let i = 0; i < 3000; i++) {
+      const first = selectTargets("virtual/test", makeConfig("random"), state)[0].model
+      counts.set(first, (counts.get(first) ?? 0) + 1)
+    }
+    for (const count of counts.values()) expect(count).toBeWithin(900, 1100)
+  })
 })
 
 describe("selectTargets - weighted", () => {
@@ -150,6 +209,314 @@ describe("selectTargets - weighted", () => {
     // With weight ratio 10:1, heavy should be first >80% of the time
     expect(heavyFirst).toBeGreaterThan(trials * 0.75)
   })
+
+  it("puts a target first in proportion to its weight", () => {
+    // weights 3 / 1 / 2 → first 1/2, 1/6 and 1/3 of the time
+    const state = createRouterState({ random: createSeededRandom(1) })
+    const counts = new Map<string, number>()
+    const trials = 6000
+    for (let i = 0; i < trials; i++) {
+      const first = selectTargets("virtual/test", makeConfig("weighted"), state)[0].model
+      counts.set(first, (counts.get(first) ?? 0) + 1)
+    }
+    expect(counts.get("claude-opus-4")!).toBeWithin(2800, 3200)
+    expect(counts.get("claude-sonnet-4")!).toBeWithin(850, 1150)
+    expect(counts.get("gpt-4o")!).toBeWithin(1850, 2150)
+  })
+
+  it("puts zero-weight targets last", () => {
+    const state = createRouterState({ random: createSeededRandom(3) })
+    const config = makeConfig("weighted", [{ ...targetA, weight: 0 }, targetB, { ...targetC, weight: 0 }])
+    for (let i = 0; i < 20; i++) {
+      expect(selectTargets("virtual/test", config, state).map((t) => t.model)).toEqual(["claude-sonnet-4", "claude-opus-4", "gpt-4o"])
+    }
+  })
+})
+
+describe("selectTargets - weighted_round_robin", () => {
+  it("spreads first choices smoothly in proportion to weight", () => {
+    const state = createRouterState()
+    const config = makeConfig("weighted_round_robin", [
+      { provider: "p", model: "a", weight: 5 },
+      { provider: "p", model: "b", weight: 1 },
+      { provider: "p", model: "c", weight: 1 },
+    ])
+    const firsts = Array.from({ length: 14 }, () => selectTargets("virtual/test", config, state)[0].model)
+    expect(firsts.join(" ")).toBe("a a b a c a a a a b a c a a")
+  })
+
+  it("keeps the other targets in config order behind the pick", () => {
+    const state = createRouterState()
+    const config = makeConfig("weighted_round_robin")
+    expect(selectTargets("virtual/test", config, state)).toEqual([targetA, targetB, targetC])
+    expect(selectTargets("virtual/test", config, state)).toEqual([targetC, targetA, targetB])
+  })
+})
+
+describe("selectTargets - fastest", () => {
+  const config: VirtualModelConfig = { strategy: "fastest", targets: [targetA, targetB, targetC], fastest: { exploration_rate: 0 } }
+
+  it("orders by the blended TTFT / total latency average", () => {
+    const state = createRouterState()
+    recordSuccess("anthropic/claude-opus-4", 9000, state, 3000) // score 6000
+    recordSuccess("anthropic/claude-sonnet-4", 4000, state, 800) // score 2400
+    recordSuccess("openai/gpt-4o", 3000, state, 2000) // score 2500
+    expect(selectTargets("virtual/test", config, state)).toEqual([targetB, targetC, targetA])
+
+    // Scoring on total latency alone puts C ahead of B
+    const totalOnly = { ...config, fastest: { ttft_weight: 0, exploration_rate: 0 } }
+    expect(selectTargets("virtual/test", totalOnly, state)).toEqual([targetC, targetB, targetA])
+  })
+
+  it("tries unmeasured targets first", () => {
+    const state = createRouterState()
+    recordSuccess("anthropic/claude-opus-4", 1000, state, 100)
+    expect(selectTargets("virtual/test", config, state)).toEqual([targetB, targetC, targetA])
+  })
+
+  it("occasionally explores a slower target", () => {
+    const state = createRouterState()
+    recordSuccess("anthropic/claude-opus-4", 1000, state, 100)
+    recordSuccess("anthropic/claude-sonnet-4", 2000, state, 200)
+    recordSuccess("openai/gpt-4o", 3000, state, 300)
+
+    const random = spyOn(Math, "random").mockReturnValueOnce(0.05).mockReturnValueOnce(0.99)
+    const explored = selectTargets("virtual/test", { ...config, fastest: { exploration_rate: 0.1 } }, state)
+    random.mockRestore()
+
+    expect(explored).toEqual([targetC, targetA, targetB])
+  })
+
+  it("smooths latency with an exponentially weighted moving average", () => {
+    const state = createRouterState()
+    recordSuccess("openai/gpt-4o", 1000, state, 100)
+    recordSuccess("openai/gpt-4o", 2000, state, 200)
+    expect(state.metrics.get("openai/gpt-4o")).toMatchObject({ ewmaLatencyMs: 1300, ewmaTtftMs: 130 })
+  })
+})
+
+describe("selectTargets - cheapest", () => {
+  it("orders by input + output price, unpriced targets last", () => {
+    const state = createRouterState()
+    state.catalogPrices.set("anthropic/claude-opus-4", { input: 15, output: 75 })
+    state.catalogPrices.set("anthropic/claude-sonnet-4", { input: 3, output: 15 })
+    const config: VirtualModelConfig = {
+      strategy: "cheapest",
+      targets: [targetC, targetA, { ...targetB, cost: { input: 20, output: 80 } }],
+    }
+
+    // targetB's own cost overrides the catalog price
+    expect(selectTargets("virtual/test", config, state).map((t) => t.model)).toEqual([
+      "claude-opus-4",
+      "claude-sonnet-4",
+      "gpt-4o",
+    ])
+  })
+})
+
+describe("selectTargets - schedules", () => {
+  // Monday 2026-10-19, 10:00 UTC
+  const monday10 = Date.UTC(2026, 9, 19, 10, 0)
+  const hour = 60 * 60 * 1000
+
+  const config: VirtualModelConfig = {
+    strategy: "sequential",
+    targets: [targetC, targetB],
+    schedules: [
+      {
+        name: "work-hours",
+        schedule: { timezone: "UTC", days: ["mon", "tue", "wed", "thu", "fri"], hours: "09:00-18:00" },
+        targets: [targetA, targetB],
+      },
+    ],
+  }
+
+  it("uses the active window's targets and the model's own outside it", () => {
+    const clock = createFakeClock(monday10)
+    const state = createRouterState({ clock })
+    expect(selectTargets("virtual/test", config, state)).toEqual([targetA, targetB])
+
+    clock.advance(9 * hour) // 19:00
+    expect(selectTargets("virtual/test", config, state)).toEqual([targetC, targetB])
+    expect(state.scheduleWindows.get("virtual/test")).toBe("default")
+  })
+
+  it("logs a change of window", () => {
+    const clock = createFakeClock(monday10)
+    const state = createRouterState({ clock })
+    const logSpy = spyOn(console, "log").mockImplementation(() => {})
+    try {
+      selectTargets("virtual/test", config, state)
+      clock.advance(9 * hour)
+      selectTargets("virtual/test", config, state)
+      expect(logSpy.mock.calls.map((c) => c[0])).toEqual(["[virtual-provider] SCHEDULE virtual/test → default"])
+    } finally {
+      logSpy.mockRestore()
+    }
+  })
+
+  it("skips targets whose own schedule is inactive, even if that leaves none", () => {
+    const clock = createFakeClock(monday10)
+    const state = createRouterState({ clock })
+    const nightly = { ...targetC, schedule: { timezone: "UTC", hours: "22:00-06:00" } }
+    const model = makeConfig("sequential", [nightly, targetB])
+    expect(selectTargets("virtual/test", model, state)).toEqual([targetB])
+
+    clock.advance(13 * hour) // 23:00
+    expect(selectTargets("virtual/test", model, state)).toEqual([nightly, targetB])
+
+    const onlyNightly = makeConfig("sequential", [nightly])
+    clock.advance(12 * hour) // Tuesday 11:00
+    expect(selectTargets("virtual/test", onlyNightly, state)).toEqual([])
+  })
+
+  it("honours date ranges and weekdays in the schedule's timezone", () => {
+    const state = createRouterState({ clock: createFakeClock(Date.UTC(2026, 11, 24, 23, 30)) })
+    const holiday = makeConfig("sequential", [
+      { ...targetA, schedule: { timezone: "Europe/Berlin", dates: { from: "2026-12-25", to: "2026-12-26" } } },
+      { ...targetB, schedule: { timezone: "UTC", days: ["fri"] } },
+      targetC,
+    ])
+    // 00:30 on the 25th in Berlin, still Thursday the 24th in UTC
+    expect(selectTargets("virtual/test", holiday, state).map((t) => t.model)).toEqual(["claude-opus-4", "gpt-4o"])
+  })
+
+  it("summarises the active window and benched targets", () => {
+    const state = createRouterState({ clock: createFakeClock(monday10) })
+    const loaded = {
+      virtualModels: new Map<string, VirtualModelConfig>([
+        ["virtual/work", config],
+        ["virtual/plain", makeConfig("sequential")],
+        ["virtual/night", makeConfig("sequential", [{ ...targetC, schedule: { timezone: "UTC", hours: "22:00-06:00" } }])],
+      ]),
+      strategyProfiles: new Map(),
+    }
+    expect(getScheduleSummary(loaded, state)).toEqual({
+      "virtual/work": { window: "work-hours", inactiveTargets: [] },
+      "virtual/night": { window: "default", inactiveTargets: ["openai/gpt-4o"] },
+    })
+  })
+})
+
+describe("applyAgentRule", () => {
+  const config: VirtualModelConfig = {
+    strategy: "sequential",
+    strategy_profile: "default",
+    targets: [targetA, targetB, targetC],
+    agents: {
+      plan: { only: ["anthropic/*"], prefer: ["anthropic/claude-sonnet-*"] },
+      "*": { strategy: "round_robin", strategy_profile: "subagents" },
+    },
+  }
+
+  it("restricts and reorders targets for an agent with its own rule", () => {
+    const result = applyAgentRule(config, "plan")
+    expect(result.targets).toEqual([targetB, targetA])
+    expect(result.strategy_profile).toBe("default")
+  })
+
+  it("falls back to the \"*\" rule for other agents", () => {
+    const result = applyAgentRule(config, "explore")
+    expect(result.targets).toEqual([targetA, targetB, targetC])
+    expect(result.strategy).toBe("round_robin")
+    expect(result.strategy_profile).toBe("subagents")
+  })
+
+  it("narrows schedule windows too", () => {
+    const scheduled: VirtualModelConfig = {
+      ...config,
+      schedules: [{ name: "night", schedule: { hours: "22:00-06:00" }, targets: [targetC, targetB] }],
+    }
+    expect(applyAgentRule(scheduled, "plan").schedules?.[0].targets).toEqual([targetB])
+  })
+
+  it("returns the config itself when no rule applies", () => {
+    const { agents: _agents, ...plain } = config
+    expect(applyAgentRule(plain, "build")).toBe(plain)
+  })
+})
+
+describe("experiments", () => {
+  const experiment = {
+    name: "sonnet-5",
+    start: "2026-10-01",
+    end: "2026-10-31",
+    arms: [
+      { name: "control", weight: 9 },
+      { name: "canary", weight: 1, targets: [targetB] },
+      { name: "paused", weight: 0, targets: [targetC] },
+    ],
+  }
+  const config: VirtualModelConfig = { ...makeConfig("sequential"), experiment }
+
+  it("assigns each session a stable arm, in proportion to the weights", () => {
+    const counts: Record<string, number> = { control: 0, canary: 0, paused: 0 }
+    for (let i = 0; i < 2000; i++) counts[assignArm(experiment, `ses_${i}`).name]++
+    expect(counts.paused).toBe(0)
+    expect(counts.canary).toBeGreaterThan(140)
+    expect(counts.canary).toBeLessThan(260)
+    expect(assignArm(experiment, "ses_42")).toBe(assignArm(experiment, "ses_42"))
+  })
+
+  it("runs between its start and end dates", () => {
+    const oct15 = Date.UTC(2026, 9, 15, 12)
+    expect(isExperimentActive(experiment, oct15)).toBe(true)
+    expect(isExperimentActive({ ...experiment, end: "2026-10-10" }, oct15)).toBe(false)
+    expect(isExperimentActive({ name: "open-ended", arms: experiment.arms }, oct15)).toBe(true)
+  })
+
+  it("routes an arm with targets to them only, and a control arm to the model's own", () => {
+    const scheduled: VirtualModelConfig = {
+      ...config,
+      schedules: [{ name: "night", schedule: { hours: "22:00-06:00" }, targets: [targetC] }],
+    }
+    const canary = applyExperimentArm(scheduled, experiment.arms[1])
+    expect(canary.targets).toEqual([targetB])
+    expect(canary.schedules).toBeUndefined()
+    expect(applyExperimentArm(scheduled, experiment.arms[0])).toBe(scheduled)
+    expect(applyExperimentArm(scheduled, undefined)).toBe(scheduled)
+  })
+
+  it("summarises each arm for export", () => {
+    const state = createRouterState({ clock: createFakeClock(Date.UTC(2026, 9, 15, 12)) })
+    recordArmSession("virtual/work", "sonnet-5", "canary", state)
+    recordArmMessage(
+      "virtual/work",
+      "sonnet-5",
+      "canary",
+      { latencyMs: 3000, tokens: { input: 1000, output: 200, reasoning: 50, cache: { read: 400, write: 0 } }, costUsd: 0.01 },
+      state,
+    )
+    recordArmMessage("virtual/work", "sonnet-5", "canary", { latencyMs: 1000, tokens: { input: 3000, output: 400 }, costUsd: 0.03 }, state)
+    recordArmError("virtual/work", "sonnet-5", "canary", state)
+    recordArmFallback("virtual/work", "sonnet-5", "canary", state)
+    recordArmSession("virtual/work", "an-old-experiment", "control", state)
+
+    const loaded = {
+      virtualModels: new Map<string, VirtualModelConfig>([
+        ["virtual/work", config],
+        ["virtual/plain", makeConfig("sequential")],
+      ]),
+      strategyProfiles: new Map(),
+    }
+    const summary = getExperimentSummary(loaded, state) as Record<string, { arms: Record<string, unknown> }>
+    expect(Object.keys(summary)).toEqual(["virtual/work"])
+    expect(summary["virtual/work"]).toMatchObject({ experiment: "sonnet-5", active: true, start: "2026-10-01", end: "2026-10-31" })
+    expect(summary["virtual/work"].arms.canary).toEqual({
+      weight: 1,
+      sessions: 1,
+      messages: 2,
+      errors: 1,
+      errorRate: "33.3%",
+      fallbacks: 1,
+      avgLatencyMs: 2000,
+      avgInputTokens: 2000,
+      avgOutputTokens: 300,
+      tokens: { input: 4000, output: 600, reasoning: 50, cacheRead: 400, cacheWrite: 0 },
+      costUsd: 0.04,
+    })
+    expect(summary["virtual/work"].arms.control).toMatchObject({ sessions: 0, errorRate: "N/A", avgLatencyMs: null })
+  })
 })
 
 describe("RouterState - cooldown", () => {
@@ -203,3 +570,204 @@ describe("RouterState - cooldown", () => {
     expect(isInCooldown("anthropic/claude-sonnet-4", state)).toBe(false)
   })
 })
+
+describe("RouterState - pruneState", () => {
+  it("drops cooldowns and metrics only for removed targets", () => {
+    const state = createRouterState()
+    setCooldown("anthropic/claude-opus-4", "10m", state)
+    setCooldown("openai/gpt-4o", "10m", state)
+    recordFailure("openai/gpt-4o", state)
+
+    pruneState(state, ["openai/gpt-4o"], [])
+
+    expect(isInCooldown("anthropic/claude-opus-4", state)).toBe(true)
+    expect(state.cooldowns.has("openai/gpt-4o")).toBe(false)
+    expect(state.metrics.has("openai/gpt-4o")).toBe(false)
+  })
+
+  it("resets round-robin position for the given virtual models", () => {
+    const state = createRouterState()
+    const config = makeConfig("round_robin")
+    selectTargets("virtual/a", config, state)
+    selectTargets("virtual/b", config, state)
+
+    pruneState(state, [], ["virtual/a"])
+
+    expect(state.roundRobinIndex.has("virtual/a")).toBe(false)
+    expect(state.roundRobinIndex.get("virtual/b")).toBe(1)
+  })
+})
+
+describe("circuit breaker", () => {
+  const key = "anthropic/claude-opus-4"
+  const settings = mergeWithProfile({ targets: [], cooldown: "10s" }, {
+    max_retries: 0,
+    fallback_on: [429],
+    circuit_breaker: { min_requests: 4, failure_rate: 0.5, window: "1m", max_open: "5m" },
+  })
+
+  it("escalates the open duration on repeated trips and half-opens for one probe", () => {
+    const clock = createFakeClock()
+    const state = createRouterState({ clock })
+
+    expect(tripBreaker(key, 10_000, state, settings, "test")).toBe(10_000)
+    clock.advance(10_000)
+    expect(isInCooldown(key, state)).toBe(false)
+
+    // The probe holds the target back from other requests
+    noteDispatch(key, state, settings)
+    expect(state.breakers.get(key)?.phase).toBe("half_open")
+    expect(isInCooldown(key, state)).toBe(true)
+
+    // A failed probe re-opens for twice as long
+    noteFailure(key, state, settings)
+    expect(state.breakers.get(key)?.phase).toBe("open")
+    expect(state.cooldowns.get(key)).toBe(clock.now() + 20_000)
+
+    clock.advance(20_000)
+    noteDispatch(key, state, settings)
+    noteSuccess(key, state, settings)
+    expect(state.breakers.get(key)?.phase).toBe("closed")
+    expect(isInCooldown(key, state)).toBe(false)
+
+    // Flapping soon after closing keeps escalating, up to max_open
+    expect(tripBreaker(key, 10_000, state, settings, "test")).toBe(40_000)
+  })
+
+  it("restarts escalation once the target stayed closed for max_open", () => {
+    const clock = createFakeClock()
+    const state = createRouterState({ clock })
+    tripBreaker(key, 10_000, state, settings, "test")
+    clock.advance(10_000)
+    noteDispatch(key, state, settings)
+    noteSuccess(key, state, settings)
+
+    clock.advance(5 * 60_000)
+    expect(tripBreaker(key, 10_000, state, settings, "test")).toBe(10_000)
+  })
+
+  it("trips on the failure rate over the sliding window", () => {
+    const clock = createFakeClock()
+    const state = createRouterState({ clock })
+
+    noteFailure(key, state, settings)
+    noteSuccess(key, state, settings)
+    noteFailure(key, state, settings)
+    expect(isInCooldown(key, state)).toBe(false) // below min_requests
+
+    // Outcomes older than the window no longer count
+    clock.advance(60_000)
+    noteSuccess(key, state, settings)
+    noteFailure(key, state, settings)
+    noteSuccess(key, state, settings)
+    expect(isInCooldown(key, state)).toBe(false)
+
+    noteFailure(key, state, settings)
+    expect(isInCooldown(key, state)).toBe(true)
+    expect(state.cooldowns.get(key)).toBe(clock.now() + 10_000)
+  })
+
+  it("reports breaker state in getMetricsSummary", () => {
+    const clock = createFakeClock()
+    const state = createRouterState({ clock })
+    recordFailure(key, state)
+    tripBreaker(key, 10_000, state, settings, "test")
+
+    expect(getMetricsSummary(state)[key]).toMatchObject({
+      requests: 1,
+      breaker: { state: "open", trips: 1, openUntil: new Date(clock.now() + 10_000).toISOString() },
+    })
+  })
+})
+
+describe("RouterState - cooldown scopes", () => {
+  const settings = mergeWithProfile({ targets: [] }, {
+    max_retries: 0,
+    fallback_on: [429, 503],
+    cooldown_scope: "provider",
+    scope_on: [503],
+  })
+
+  it("benches every model of the provider for scope_on failures", () => {
+    const state = createRouterState()
+    expect(benchScope("anthropic/claude-opus-4", 503, 60_000, settings, state)).toBe("provider:anthropic")
+    expect(isInCooldown("anthropic/claude-sonnet-4", state)).toBe(true)
+    expect(isInCooldown("openai/gpt-4o", state)).toBe(false)
+  })
+
+  it("benches only the model for other failures", () => {
+    const state = createRouterState()
+    expect(benchScope("anthropic/claude-opus-4", 429, 60_000, settings, state)).toBeNull()
+    expect(isInCooldown("anthropic/claude-sonnet-4", state)).toBe(false)
+  })
+
+  it("benches named groups by model key pattern", () => {
+    const state = createRouterState()
+    setCooldownGroups(state, { "or-anthropic": ["openrouter/anthropic/*"] })
+    const group = { ...settings, cooldown_scope: "or-anthropic", scope_on: undefined }
+
+    expect(benchScope("openrouter/anthropic/claude-sonnet-4.6", "timeout", 60_000, group, state)).toBe("group:or-anthropic")
+    expect(isInCooldown("openrouter/anthropic/claude-opus-4.1", state)).toBe(true)
+    expect(isInCooldown("openrouter/openai/gpt-5", state)).toBe(false)
+
+    // A model outside the group is benched on its own
+    expect(benchScope("openrouter/openai/gpt-5", "timeout", 60_000, group, state)).toBeNull()
+
+    // Removing the group on reload lifts its cooldown
+    setCooldownGroups(state, {})
+    expect(isInCooldown("openrouter/anthropic/claude-opus-4.1", state)).toBe(false)
+  })
+})
+
+describe("RouterState - budgets", () => {
+  // 2026-03-10 15:00 local time
+  const start = new Date(2026, 2, 10, 15, 0, 0).getTime()
+  const config = loadConfig({
+    models: {
+      "work-build": {
+        budget: { daily: 5 },
+        targets: [{ provider: "anthropic", model: "claude-sonnet-4-6" }],
+      },
+    },
+    provider_budgets: { openai: { monthly: 100 } },
+  })
+
+  it("prices token usage per million tokens, reasoning as output", () => {
+    const usd = messageCost(
+      { input: 100_000, output: 10_000, reasoning: 10_000, cache: { read: 1_000_000, write: 0 } },
+      { input: 3, output: 15, cache_read: 0.3 },
+    )
+    expect(usd).toBeCloseTo(0.3 + 0.3 + 0.3)
+  })
+
+  it("skips a virtual model's targets until midnight once its daily budget is spent", () => {
+    const clock = createFakeClock(start)
+    const state = createRouterState({ clock })
+    recordSpend("virtual/work-build", "anthropic/claude-sonnet-4-6", 3, config, state)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state, "virtual/work-build")).toBe(false)
+
+    recordSpend("virtual/work-build", "anthropic/claude-sonnet-4-6", 2.5, config, state)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state, "virtual/work-build")).toBe(true)
+    // The budget belongs to the virtual model, not the target
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state)).toBe(false)
+
+    clock.advance(9 * 60 * 60 * 1000)
+    expect(isInCooldown("anthropic/claude-sonnet-4-6", state, "virtual/work-build")).toBe(false)
+    expect(getSpendSummary(state)["virtual:work-build"]).toEqual({ today: 0, thisMonth: 5.5 })
+  })
+
+  it("benches every target of a provider once its budget is spent", () => {
+    const state = createRouterState({ clock: createFakeClock(start) })
+    recordSpend("virtual/other", "openai/gpt-5", 100, config, state)
+    expect(isInCooldown("openai/gpt-5-mini", state)).toBe(true)
+    expect(state.cooldowns.get("budget:provider:openai")).toBe(new Date(2026, 3, 1).getTime())
+  })
+
+  it("refreshBudgets re-applies changed limits", () => {
+    const state = createRouterState({ clock: createFakeClock(start) })
+    recordSpend("virtual/other", "openai/gpt-5", 100, config, state)
+
+    refreshBudgets(loadConfig({ models: {}, provider_budgets: { openai: { monthly: 500 } } }), state)
+    expect(isInCooldown("openai/gpt-5", state)).toBe(false)
+  })
+})